@@ -3,14 +3,28 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import Home from "@/pages/Home";
+import Product from "@/pages/Product";
+import Search from "@/pages/Search";
+import Favorites from "@/pages/Favorites";
 import Admin from "@/pages/Admin";
+import AdminLogin from "@/pages/AdminLogin";
+import { AdminGuard, ADMIN_LOGIN_PATH } from "@/components/admin/AdminGuard";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
-      <Route path="/admin/secure/9f7c3b2a-1d4f-4f0a-bc9c-8e21f7a0c3d1" component={Admin} />
+      <Route path="/category/:slug" component={Home} />
+      <Route path="/product/:id" component={Product} />
+      <Route path="/search" component={Search} />
+      <Route path="/favorites" component={Favorites} />
+      <Route path={ADMIN_LOGIN_PATH} component={AdminLogin} />
+      <Route path="/admin">
+        <AdminGuard>
+          <Admin />
+        </AdminGuard>
+      </Route>
       <Route component={NotFound} />
     </Switch>
   );
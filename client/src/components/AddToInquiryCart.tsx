@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Minus, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MAX_INQUIRY_QUANTITY,
+  getInquiryItemKey,
+  useInquiryCart,
+} from "@/hooks/use-inquiry-cart";
+
+interface AddToInquiryCartProps {
+  product: { id: number; name: string; image: string | null; price: string | null };
+  variant?: { id: number; name: string } | null;
+}
+
+/** Quantity stepper and "add to inquiry" button for the product dialog and page. */
+export function AddToInquiryCart({ product, variant }: AddToInquiryCartProps) {
+  const { toast } = useToast();
+  const { items, add, setOpen } = useInquiryCart();
+  const [quantity, setQuantity] = useState(1);
+
+  const key = getInquiryItemKey({ productId: product.id, variantId: variant?.id ?? null });
+  const inCart = items.find((item) => getInquiryItemKey(item) === key);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-stretch gap-3">
+        <div className="flex items-center border border-border">
+          <button
+            type="button"
+            className="px-3 h-full text-muted-foreground hover:text-primary disabled:opacity-30"
+            onClick={() => setQuantity((q) => Math.max(1, q - 1))}
+            disabled={quantity <= 1}
+            aria-label="Уменьшить количество"
+          >
+            <Minus className="w-3 h-3" />
+          </button>
+          <span className="w-8 text-center text-sm tabular-nums" aria-live="polite">
+            {quantity}
+          </span>
+          <button
+            type="button"
+            className="px-3 h-full text-muted-foreground hover:text-primary disabled:opacity-30"
+            onClick={() => setQuantity((q) => Math.min(MAX_INQUIRY_QUANTITY, q + 1))}
+            disabled={quantity >= MAX_INQUIRY_QUANTITY}
+            aria-label="Увеличить количество"
+          >
+            <Plus className="w-3 h-3" />
+          </button>
+        </div>
+
+        <Button
+          type="button"
+          onClick={() => {
+            add(
+              {
+                productId: product.id,
+                variantId: variant?.id ?? null,
+                name: product.name,
+                variantName: variant?.name ?? null,
+                image: product.image,
+                price: product.price,
+              },
+              quantity,
+            );
+            setQuantity(1);
+            toast({
+              title: "Добавлено в заявку",
+              description: variant ? `${product.name} · ${variant.name}` : product.name,
+            });
+          }}
+          className="flex-1 bg-foreground text-background hover:bg-primary transition-colors duration-500 uppercase tracking-[0.2em] text-[10px] py-4 sm:py-5 rounded-none"
+        >
+          Добавить в заявку
+        </Button>
+      </div>
+
+      {inCart ? (
+        <button
+          type="button"
+          onClick={() => setOpen(true)}
+          className="text-xs text-muted-foreground hover:text-primary transition-colors"
+        >
+          В заявке: {inCart.quantity} шт. — <span className="underline underline-offset-4">оформить</span>
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { ProductFilters, ProductSort } from "@/hooks/use-products";
+
+const SORT_LABELS: Record<ProductSort, string> = {
+  newest: "Сначала новые",
+  price_asc: "Цена: по возрастанию",
+  price_desc: "Цена: по убыванию",
+  name: "По названию",
+};
+
+interface CatalogFiltersProps {
+  filters: Required<ProductFilters>;
+  onChange: (next: Partial<Required<ProductFilters>>) => void;
+  onReset: () => void;
+}
+
+function parsePriceInput(value: string): number | null {
+  const trimmed = value.trim().replace(",", ".");
+  if (!trimmed) return null;
+  const n = Number(trimmed);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+export function CatalogFilters({ filters, onChange, onReset }: CatalogFiltersProps) {
+  const [minDraft, setMinDraft] = useState(filters.minPrice === null ? "" : String(filters.minPrice));
+  const [maxDraft, setMaxDraft] = useState(filters.maxPrice === null ? "" : String(filters.maxPrice));
+
+  // Keep the inputs in sync with back/forward navigation
+  useEffect(() => {
+    setMinDraft(filters.minPrice === null ? "" : String(filters.minPrice));
+  }, [filters.minPrice]);
+  useEffect(() => {
+    setMaxDraft(filters.maxPrice === null ? "" : String(filters.maxPrice));
+  }, [filters.maxPrice]);
+
+  // Price inputs are applied on blur / Enter to avoid a query per keystroke
+  const commitPrices = () => {
+    const minPrice = parsePriceInput(minDraft);
+    const maxPrice = parsePriceInput(maxDraft);
+    if (minPrice === filters.minPrice && maxPrice === filters.maxPrice) return;
+    onChange({ minPrice, maxPrice });
+  };
+
+  const isDefault =
+    filters.sort === "newest" &&
+    filters.minPrice === null &&
+    filters.maxPrice === null &&
+    !filters.inStockOnly;
+
+  const inputClassName =
+    "w-full min-w-0 bg-transparent border-b border-border py-1 text-sm outline-none focus:border-primary transition-colors placeholder:text-muted-foreground/60";
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <p className="text-[10px] uppercase tracking-[0.2em] text-muted-foreground">Сортировка</p>
+        <Select value={filters.sort} onValueChange={(v) => onChange({ sort: v as ProductSort })}>
+          <SelectTrigger className="rounded-none text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SORT_LABELS) as ProductSort[]).map((sort) => (
+              <SelectItem key={sort} value={sort}>
+                {SORT_LABELS[sort]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <form
+        className="space-y-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          commitPrices();
+        }}
+      >
+        <p className="text-[10px] uppercase tracking-[0.2em] text-muted-foreground">Цена</p>
+        <div className="flex items-center gap-3">
+          <input
+            value={minDraft}
+            onChange={(e) => setMinDraft(e.target.value)}
+            onBlur={commitPrices}
+            inputMode="decimal"
+            placeholder="от"
+            aria-label="Минимальная цена"
+            className={inputClassName}
+          />
+          <span className="text-muted-foreground">—</span>
+          <input
+            value={maxDraft}
+            onChange={(e) => setMaxDraft(e.target.value)}
+            onBlur={commitPrices}
+            inputMode="decimal"
+            placeholder="до"
+            aria-label="Максимальная цена"
+            className={inputClassName}
+          />
+        </div>
+        <button type="submit" className="hidden" aria-hidden="true" tabIndex={-1} />
+      </form>
+
+      <label className="flex items-center justify-between gap-3 cursor-pointer">
+        <span className="text-[10px] uppercase tracking-[0.2em] text-muted-foreground">Только в наличии</span>
+        <Switch
+          checked={filters.inStockOnly}
+          onCheckedChange={(checked) => onChange({ inStockOnly: checked })}
+        />
+      </label>
+
+      {!isDefault ? (
+        <button
+          type="button"
+          onClick={onReset}
+          className="text-[10px] uppercase tracking-[0.2em] text-muted-foreground border-b border-border pb-1 hover:text-primary hover:border-primary transition-colors"
+        >
+          Сбросить фильтры
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { Minus, Plus, X } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { InquiryRequestForm } from "@/components/InquiryRequestForm";
+import { MAX_INQUIRY_QUANTITY, getInquiryItemKey, useInquiryCart } from "@/hooks/use-inquiry-cart";
+
+/** Basket drawer: review the collected products and send them as one request. */
+export function InquiryCartSheet() {
+  const { items, open, count, setOpen, setQuantity, remove, clear } = useInquiryCart();
+  const [submitted, setSubmitted] = useState(false);
+
+  useEffect(() => {
+    if (!open) setSubmitted(false);
+  }, [open]);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetContent side="right" className="w-full sm:max-w-md flex flex-col gap-0 p-0">
+        <SheetHeader className="p-6 pb-4 border-b border-border text-left">
+          <SheetTitle className="font-serif text-2xl">Заявка</SheetTitle>
+          <SheetDescription>
+            {count > 0
+              ? `${count} шт. — отправьте одной заявкой, мы уточним детали по телефону.`
+              : "Добавляйте товары из каталога, чтобы спросить о нескольких сразу."}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-8">
+          {submitted ? (
+            <div className="py-10 text-center space-y-2">
+              <p className="font-serif text-xl">Заявка отправлена</p>
+              <p className="text-sm text-muted-foreground">Мы свяжемся с вами в ближайшее время.</p>
+            </div>
+          ) : items.length === 0 ? (
+            <p className="py-10 text-center text-sm text-muted-foreground">В заявке пока нет товаров.</p>
+          ) : (
+            <>
+              <ul className="space-y-4">
+                {items.map((item) => {
+                  const key = getInquiryItemKey(item);
+                  return (
+                    <li key={key} className="flex gap-4">
+                      <Link
+                        href={`/product/${item.productId}`}
+                        onClick={() => setOpen(false)}
+                        className="w-16 h-20 shrink-0 bg-secondary/20 overflow-hidden"
+                      >
+                        {item.image ? (
+                          <img src={item.image} alt={item.name} className="w-full h-full object-cover" />
+                        ) : null}
+                      </Link>
+
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex items-start justify-between gap-2">
+                          <p className="font-serif text-base leading-tight truncate">{item.name}</p>
+                          <button
+                            type="button"
+                            onClick={() => remove(key)}
+                            className="text-muted-foreground hover:text-primary"
+                            aria-label={`Убрать «${item.name}» из заявки`}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                        {item.variantName ? (
+                          <p className="text-xs text-muted-foreground">{item.variantName}</p>
+                        ) : null}
+                        <p className="text-xs text-muted-foreground">{item.price || "Цена по запросу"}</p>
+
+                        <div className="inline-flex items-center border border-border mt-1">
+                          <button
+                            type="button"
+                            className="px-2 py-1 text-muted-foreground hover:text-primary disabled:opacity-30"
+                            onClick={() => setQuantity(key, item.quantity - 1)}
+                            disabled={item.quantity <= 1}
+                            aria-label="Уменьшить количество"
+                          >
+                            <Minus className="w-3 h-3" />
+                          </button>
+                          <span className="w-7 text-center text-xs tabular-nums">{item.quantity}</span>
+                          <button
+                            type="button"
+                            className="px-2 py-1 text-muted-foreground hover:text-primary disabled:opacity-30"
+                            onClick={() => setQuantity(key, item.quantity + 1)}
+                            disabled={item.quantity >= MAX_INQUIRY_QUANTITY}
+                            aria-label="Увеличить количество"
+                          >
+                            <Plus className="w-3 h-3" />
+                          </button>
+                        </div>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              <InquiryRequestForm
+                items={items}
+                onSubmitted={() => {
+                  clear();
+                  setSubmitted(true);
+                }}
+              />
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
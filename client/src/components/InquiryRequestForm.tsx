@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/lib/supabaseClient";
+import { parsePhone, sanitizePhoneInput } from "@/lib/phone";
+import { useToast } from "@/hooks/use-toast";
+import { isRateLimitError, useSpamGuard } from "@/hooks/use-spam-guard";
+import type { InquiryCartItem } from "@/hooks/use-inquiry-cart";
+
+interface InquiryRequestFormProps {
+  items: InquiryCartItem[];
+  onSubmitted?: () => void;
+}
+
+/** Contact form of the inquiry basket: sends all items as a single request. */
+export function InquiryRequestForm({ items, onSubmitted }: InquiryRequestFormProps) {
+  const { toast } = useToast();
+  const spamGuard = useSpamGuard();
+
+  const [clientName, setClientName] = useState("");
+  const [clientPhone, setClientPhone] = useState("+992");
+  const [clientMessage, setClientMessage] = useState("");
+  const [formStatus, setFormStatus] = useState<"idle" | "success" | "error">("idle");
+  const [formSubmitting, setFormSubmitting] = useState(false);
+
+  // When the form mounts (basket opened), prefill name/phone from localStorage
+  useEffect(() => {
+    try {
+      const savedName = localStorage.getItem("savedRequestName");
+      const savedPhone = localStorage.getItem("savedRequestPhone");
+      if (savedName) setClientName(savedName);
+      if (savedPhone) setClientPhone(savedPhone);
+      if (savedName || savedPhone) spamGuard.markPrefilled();
+    } catch (e) {
+      // ignore localStorage errors
+    }
+  }, []);
+
+  return (
+    <div className="space-y-5">
+      <h4 className="font-serif text-lg sm:text-xl italic">Контактные данные</h4>
+      <form
+        className="relative space-y-3 sm:space-y-4"
+        onSubmit={async (e) => {
+          e.preventDefault();
+          if (formSubmitting || items.length === 0) return;
+
+          // Bots get the usual success state and nothing is sent
+          if (spamGuard.isBot()) {
+            setFormStatus("success");
+            onSubmitted?.();
+            return;
+          }
+
+          const parsedPhone = parsePhone(clientPhone);
+          if (!parsedPhone.ok) {
+            setFormStatus("error");
+            toast({
+              variant: "destructive",
+              title: "Ошибка",
+              description: parsedPhone.error,
+            });
+            return;
+          }
+          const phone = parsedPhone.e164;
+
+          setFormSubmitting(true);
+          setFormStatus("idle");
+
+          const { error } = await supabase.rpc("submit_inquiry", {
+            p_client_name: clientName || null,
+            p_client_phone: phone,
+            p_client_message: clientMessage || null,
+            ...spamGuard.getSubmissionParams(),
+            p_items: items.map((item) => ({
+              product_id: item.productId,
+              variant_id: item.variantId,
+              quantity: item.quantity,
+            })),
+          });
+
+          if (error) {
+            console.error("[requests] insert error", error);
+            setFormStatus("error");
+            toast({
+              variant: "destructive",
+              title: "Ошибка",
+              description: isRateLimitError(error)
+                ? "Слишком много заявок подряд. Попробуйте через несколько минут."
+                : "Не удалось отправить заявку. Попробуйте позже.",
+            });
+          } else {
+            // Save name/phone for next time
+            try {
+              if (clientName) localStorage.setItem("savedRequestName", clientName);
+              if (phone) localStorage.setItem("savedRequestPhone", phone);
+            } catch (e) {
+              // ignore localStorage errors
+            }
+            setFormStatus("success");
+            setClientMessage("");
+            spamGuard.restart();
+            toast({
+              title: "Заявка отправлена",
+              description: "Мы свяжемся с вами в ближайшее время.",
+            });
+            onSubmitted?.();
+          }
+
+          setFormSubmitting(false);
+        }}
+      >
+        <Input
+          value={clientName}
+          onChange={(e) => setClientName(e.target.value)}
+          placeholder="Ваше имя"
+          className="bg-transparent border-x-0 border-t-0 border-b-border rounded-none px-0 focus-visible:ring-0 focus-visible:border-primary transition-colors"
+        />
+        <Input
+          value={clientPhone}
+          onChange={(e) => {
+            setClientPhone(sanitizePhoneInput(e.target.value));
+          }}
+          placeholder="Телефон"
+          inputMode="tel"
+          autoComplete="tel"
+          className="bg-transparent border-x-0 border-t-0 border-b-border rounded-none px-0 focus-visible:ring-0 focus-visible:border-primary transition-colors"
+        />
+        <Textarea
+          value={clientMessage}
+          onChange={(e) => setClientMessage(e.target.value)}
+          placeholder="(Здесь вы можете написать ваш вопрос или ваши пожелания в любом формате)"
+          className="bg-transparent border-x-0 border-t-0 border-b-border rounded-none px-0 min-h-[80px] resize-none focus-visible:ring-0 focus-visible:border-primary transition-colors"
+        />
+        <Button
+          type="submit"
+          disabled={formSubmitting || items.length === 0}
+          className="w-full bg-foreground text-background hover:bg-primary transition-colors duration-500 uppercase tracking-[0.2em] text-[10px] py-4 sm:py-5 rounded-none mt-3 sm:mt-4 disabled:opacity-60"
+        >
+          {formSubmitting ? "Отправка..." : "Отправить запрос"}
+        </Button>
+        {formStatus === "success" ? (
+          <div className="space-y-2">
+            <div className="text-xs text-primary">Заявка отправлена. Мы свяжемся с вами.</div>
+            <div className="text-xs text-muted-foreground">Мы запомнили ваши данные — при следующем оформлении они будут автозаполнены, но вы сможете их отредактировать.</div>
+          </div>
+        ) : null}
+        {formStatus === "error" ? (
+          <div className="text-xs text-destructive">Ошибка отправки. Проверьте номер и попробуйте снова.</div>
+        ) : null}
+        <input {...spamGuard.honeypotProps} />
+      </form>
+    </div>
+  );
+}
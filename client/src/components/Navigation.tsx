@@ -1,6 +1,9 @@
-import { useEffect, useState, type MouseEvent } from "react";
-import { Link } from "wouter";
-import { Menu, Phone, X } from "lucide-react";
+import { useEffect, useRef, useState, type FormEvent, type MouseEvent } from "react";
+import { Link, useLocation } from "wouter";
+import { Heart, Menu, Phone, Search, ShoppingBag, X } from "lucide-react";
+import { InquiryCartSheet } from "@/components/InquiryCartSheet";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useInquiryCart } from "@/hooks/use-inquiry-cart";
 import "./Navigation.css";
 
 type NavigationProps = {
@@ -10,6 +13,12 @@ type NavigationProps = {
 export function Navigation({ onOpenCatalog }: NavigationProps) {
 	const [menuOpen, setMenuOpen] = useState(false);
 	const [isScrolled, setIsScrolled] = useState(false);
+	const [searchOpen, setSearchOpen] = useState(false);
+	const [searchQuery, setSearchQuery] = useState("");
+	const searchInputRef = useRef<HTMLInputElement | null>(null);
+	const [, navigate] = useLocation();
+	const { count: inquiryCount, setOpen: setInquiryOpen } = useInquiryCart();
+	const { count: favoritesCount } = useFavorites();
 
 	const links = [
 		{ label: "Магазин", href: "#shop" },
@@ -47,6 +56,19 @@ export function Navigation({ onOpenCatalog }: NavigationProps) {
 		setMenuOpen(false);
 	};
 
+	useEffect(() => {
+		if (searchOpen) searchInputRef.current?.focus();
+	}, [searchOpen]);
+
+	const handleSearchSubmit = (e: FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		const q = searchQuery.trim();
+		if (!q) return;
+		navigate(`/search?q=${encodeURIComponent(q)}`);
+		setSearchOpen(false);
+		setMenuOpen(false);
+	};
+
 	const handlePhoneClick = () => {
 		const target = document.getElementById("footer-phone");
 		if (target) target.scrollIntoView({ behavior: "smooth", block: "center" });
@@ -54,7 +76,7 @@ export function Navigation({ onOpenCatalog }: NavigationProps) {
 	};
 
 	return (
-		<header className={`nav-root ${isScrolled ? "nav-root--scrolled" : ""}`.trim()}>
+		<header className={`nav-root ${isScrolled || searchOpen ? "nav-root--scrolled" : ""}`.trim()}>
 			<div className="nav-inner">
 				<Link href="/" className="nav-logo">
 					AMINA ZARF
@@ -74,6 +96,32 @@ export function Navigation({ onOpenCatalog }: NavigationProps) {
 				</nav>
 
 				<div className="nav-actions">
+					<button
+						className="nav-cart"
+						type="button"
+						aria-label={searchOpen ? "Закрыть поиск" : "Поиск"}
+						aria-expanded={searchOpen}
+						onClick={() => setSearchOpen((prev) => !prev)}
+					>
+						<Search className="nav-cart-icon" />
+					</button>
+					<Link
+						href="/favorites"
+						className="nav-cart"
+						aria-label={favoritesCount ? `Избранное: ${favoritesCount}` : "Избранное"}
+					>
+						<Heart className="nav-cart-icon" />
+						{favoritesCount > 0 && <span className="nav-cart-badge">{favoritesCount}</span>}
+					</Link>
+					<button
+						className="nav-cart"
+						type="button"
+						aria-label={inquiryCount ? `Заявка: ${inquiryCount} шт.` : "Заявка"}
+						onClick={() => setInquiryOpen(true)}
+					>
+						<ShoppingBag className="nav-cart-icon" />
+						{inquiryCount > 0 && <span className="nav-cart-badge">{inquiryCount}</span>}
+					</button>
 					<button className="nav-cart" type="button" aria-label="Телефон" onClick={handlePhoneClick}>
 						<Phone className="nav-cart-icon" />
 					</button>
@@ -89,6 +137,26 @@ export function Navigation({ onOpenCatalog }: NavigationProps) {
 				</div>
 			</div>
 
+			{searchOpen && (
+				<form className="nav-search" role="search" onSubmit={handleSearchSubmit}>
+					<input
+						ref={searchInputRef}
+						type="search"
+						className="nav-search-input"
+						value={searchQuery}
+						onChange={(e) => setSearchQuery(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Escape") setSearchOpen(false);
+						}}
+						placeholder="Поиск по названию и описанию"
+						aria-label="Поиск товаров"
+					/>
+					<button className="nav-search-submit" type="submit" disabled={!searchQuery.trim()}>
+						Найти
+					</button>
+				</form>
+			)}
+
 			{menuOpen && (
 				<div className="nav-mobile">
 					<nav className="nav-mobile-links">
@@ -105,6 +173,8 @@ export function Navigation({ onOpenCatalog }: NavigationProps) {
 					</nav>
 				</div>
 			)}
+
+			<InquiryCartSheet />
 		</header>
 	);
 }
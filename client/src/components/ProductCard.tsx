@@ -1,47 +1,57 @@
 import { motion } from "framer-motion";
 import { useEffect, useRef, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Link } from "wouter";
+import { Heart } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
-import { supabase } from "@/lib/supabaseClient";
-import { useToast } from "@/hooks/use-toast";
+import { AddToInquiryCart } from "@/components/AddToInquiryCart";
+import { ProductDetails } from "@/components/ProductDetails";
+import { ProductGallery } from "@/components/ProductGallery";
+import { ProductVariantPicker, getVariantView } from "@/components/ProductVariantPicker";
+import type { ProductAttributes, ProductVariant } from "@/data/catalog";
+import { useFavorites } from "@/hooks/use-favorites";
+import { cn } from "@/lib/utils";
 
 interface ProductCardProps {
   id: number;
   name: string;
   price: string | null;
   image?: string | null;
+  images?: string[];
   categoryName?: string;
   index: number;
   inStock?: boolean;
+  description?: string | null;
+  attributes?: ProductAttributes;
+  variants?: ProductVariant[];
 }
 
-export function ProductCard({ id, name, price, image, categoryName, index, inStock }: ProductCardProps) {
+export function ProductCard({
+  id,
+  name,
+  price,
+  image,
+  images,
+  categoryName,
+  index,
+  inStock,
+  description,
+  attributes,
+  variants,
+}: ProductCardProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [selectedVariantId, setSelectedVariantId] = useState<number | null>(
+    () => (variants?.find((v) => v.inStock) ?? variants?.[0])?.id ?? null,
+  );
+  const selectedVariant = variants?.find((v) => v.id === selectedVariantId) ?? null;
+  const view = getVariantView(
+    { price, inStock, images: images?.length ? images : image ? [image] : [] },
+    selectedVariant,
+  );
+  const { isFavorite, toggle: toggleFavorite } = useFavorites();
+  const favorite = isFavorite(id);
   const [imgLoaded, setImgLoaded] = useState(false);
   const imgRef = useRef<HTMLImageElement | null>(null);
-  const { toast } = useToast();
-
-  const [clientName, setClientName] = useState("");
-  const [clientPhone, setClientPhone] = useState("+992");
-  const [clientMessage, setClientMessage] = useState("");
-  const [formStatus, setFormStatus] = useState<"idle" | "success" | "error">("idle");
-  const [formSubmitting, setFormSubmitting] = useState(false);
-
-  // When modal opens, prefill name/phone from localStorage (if present)
-  useEffect(() => {
-    if (!isOpen) return;
-    try {
-      const savedName = localStorage.getItem("savedRequestName");
-      const savedPhone = localStorage.getItem("savedRequestPhone");
-      if (savedName && clientName === "") setClientName(savedName);
-      // Only override phone if user hasn't changed it from default
-      if (savedPhone && (clientPhone === "" || clientPhone === "+992")) setClientPhone(savedPhone);
-    } catch (e) {
-      // ignore localStorage errors
-    }
-  }, [isOpen]);
 
   useEffect(() => {
     if (!image) {
@@ -103,6 +113,19 @@ export function ProductCard({ id, name, price, image, categoryName, index, inSto
           ) : (
             <div className="absolute inset-0 bg-black/0 group-hover:bg-black/5 transition-colors duration-500 pointer-events-none" />
           )}
+
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleFavorite({ id, name, image: image ?? null });
+            }}
+            aria-pressed={favorite}
+            aria-label={favorite ? "Убрать из избранного" : "В избранное"}
+            className="absolute top-2 right-2 z-20 rounded-full bg-background/80 p-2 text-foreground hover:text-primary transition-colors"
+          >
+            <Heart className={cn("w-4 h-4", favorite && "fill-primary text-primary")} />
+          </button>
         </div>
         
         <div className="text-center space-y-1">
@@ -135,8 +158,13 @@ export function ProductCard({ id, name, price, image, categoryName, index, inSto
       <Dialog open={isOpen} onOpenChange={setIsOpen}>
         <DialogContent className="max-w-[calc(100vw-2rem)] lg:max-w-[840px] p-0 overflow-hidden bg-background border-none rounded-lg mx-auto">
             <div className="flex flex-col md:flex-row max-h-[80vh] md:max-h-[75vh] overflow-y-auto">
-              <div className="relative w-full md:w-1/2 aspect-[4/3] md:aspect-auto h-auto md:min-h-[420px]">
-              <img src={image ?? undefined} alt={name} className="w-full h-full object-cover" />
+              <div className="relative w-full md:w-1/2 bg-secondary/20">
+              <ProductGallery
+                key={selectedVariant?.id ?? "product"}
+                images={view.images}
+                alt={name}
+                imageClassName="aspect-[4/3] md:aspect-[3/4]"
+              />
             </div>
               <div className="w-full md:w-1/2 p-5 sm:p-6 md:p-8 flex flex-col justify-center">
                 <DialogHeader className="mb-5 space-y-2">
@@ -153,114 +181,39 @@ export function ProductCard({ id, name, price, image, categoryName, index, inSto
               <div className="space-y-5 mb-8">
                 <div className="flex justify-between items-baseline border-b border-border pb-3">
                   <span className="text-muted-foreground text-xs sm:text-sm uppercase tracking-widest">Стоимость</span>
-                  <span className="font-serif text-lg sm:text-xl">{price || "Цена по запросу"}</span>
+                  <span className="font-serif text-lg sm:text-xl">{view.price || "Цена по запросу"}</span>
                 </div>
                 <div className="flex justify-between items-baseline border-b border-border pb-3">
                   <span className="text-muted-foreground text-xs sm:text-sm uppercase tracking-widest">Наличие</span>
                   <span className="text-xs sm:text-sm">
-                    {inStock === false ? "Нет" : "В наличии"}
+                    {view.inStock === false ? "Нет" : "В наличии"}
                   </span>
                 </div>
               </div>
 
-              <div className="space-y-5">
-                <h4 className="font-serif text-lg sm:text-xl italic">Оставить заявку</h4>
-                <form
-                  className="space-y-3 sm:space-y-4"
-                  onSubmit={async (e) => {
-                    e.preventDefault();
-                    if (formSubmitting) return;
-
-                    const phone = clientPhone.trim();
-                    if (!phone || phone.length < 5) {
-                      setFormStatus("error");
-                      toast({
-                        variant: "destructive",
-                        title: "Ошибка",
-                        description: "Введите корректный номер телефона.",
-                      });
-                      return;
-                    }
-
-                    setFormSubmitting(true);
-                    setFormStatus("idle");
+              <div className="mb-8 empty:hidden">
+                <ProductVariantPicker
+                  variants={variants ?? []}
+                  selectedId={selectedVariantId}
+                  onSelect={(v) => setSelectedVariantId(v.id)}
+                />
+              </div>
 
-                    const { error } = await supabase.from("requests").insert({
-                      client_name: clientName || null,
-                      client_phone: phone,
-                      client_message: clientMessage || null,
-                      product_id: id ?? null,
-                      status: "new",
-                      });
+              <div className="mb-8 empty:hidden">
+                <ProductDetails description={description} attributes={attributes} />
+              </div>
 
-                    if (error) {
-                      console.error("[requests] insert error", error);
-                      setFormStatus("error");
-                      toast({
-                        variant: "destructive",
-                        title: "Ошибка",
-                        description: "Не удалось отправить заявку. Попробуйте позже.",
-                      });
-                    } else {
-                      // Save name/phone for next time
-                      try {
-                        if (clientName) localStorage.setItem("savedRequestName", clientName);
-                        if (phone) localStorage.setItem("savedRequestPhone", phone);
-                      } catch (e) {
-                        // ignore localStorage errors
-                      }
-                      setFormStatus("success");
-                      toast({
-                        title: "Заявка отправлена",
-                        description: "Мы свяжемся с вами в ближайшее время.",
-                      });
-                    }
+              <AddToInquiryCart
+                product={{ id, name, image: image ?? null, price: view.price }}
+                variant={selectedVariant}
+              />
 
-                    setFormSubmitting(false);
-                  }}
-                >
-                  <Input
-                    value={clientName}
-                    onChange={(e) => setClientName(e.target.value)}
-                    placeholder="Ваше имя"
-                    className="bg-transparent border-x-0 border-t-0 border-b-border rounded-none px-0 focus-visible:ring-0 focus-visible:border-primary transition-colors"
-                  />
-                  <Input
-                    value={clientPhone}
-                    onChange={(e) => {
-                      const raw = e.target.value;
-                      const cleaned = raw.replace(/[^0-9+]/g, "");
-                      setClientPhone(cleaned);
-                    }}
-                    placeholder="Телефон"
-                    inputMode="tel"
-                    autoComplete="tel"
-                    className="bg-transparent border-x-0 border-t-0 border-b-border rounded-none px-0 focus-visible:ring-0 focus-visible:border-primary transition-colors"
-                  />
-                  <Textarea
-                    value={clientMessage}
-                    onChange={(e) => setClientMessage(e.target.value)}
-                    placeholder="(Здесь вы можете написать ваш вопрос или ваши пожелания в любом формате)"
-                    className="bg-transparent border-x-0 border-t-0 border-b-border rounded-none px-0 min-h-[80px] resize-none focus-visible:ring-0 focus-visible:border-primary transition-colors"
-                  />
-                  <Button
-                    type="submit"
-                    disabled={formSubmitting}
-                    className="w-full bg-foreground text-background hover:bg-primary transition-colors duration-500 uppercase tracking-[0.2em] text-[10px] py-4 sm:py-5 rounded-none mt-3 sm:mt-4 disabled:opacity-60"
-                  >
-                    {formSubmitting ? "Отправка..." : "Отправить запрос"}
-                  </Button>
-                  {formStatus === "success" ? (
-                    <div className="space-y-2">
-                      <div className="text-xs text-primary">Заявка отправлена. Мы свяжемся с вами.</div>
-                      <div className="text-xs text-muted-foreground">Мы запомнили ваши данные — при следующем оформлении они будут автозаполнены, но вы сможете их отредактировать.</div>
-                    </div>
-                  ) : null}
-                  {formStatus === "error" ? (
-                    <div className="text-xs text-destructive">Ошибка отправки. Проверьте номер и попробуйте снова.</div>
-                  ) : null}
-                </form>
-              </div>
+              <Link
+                href={`/product/${id}`}
+                className="mt-6 self-start text-[10px] uppercase tracking-[0.2em] text-muted-foreground border-b border-border pb-1 hover:text-primary hover:border-primary transition-colors"
+              >
+                Открыть страницу товара
+              </Link>
             </div>
           </div>
         </DialogContent>
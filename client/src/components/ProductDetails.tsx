@@ -0,0 +1,49 @@
+import type { ProductAttributes } from "@/data/catalog";
+
+const ATTRIBUTE_LABELS: Array<[keyof ProductAttributes, string]> = [
+  ["material", "Материал"],
+  ["dimensions", "Размеры"],
+  ["weight", "Вес"],
+  ["color", "Цвет"],
+];
+
+interface ProductDetailsProps {
+  description?: string | null;
+  attributes?: ProductAttributes;
+}
+
+/** Description, attribute rows and care instructions; renders nothing when all are empty. */
+export function ProductDetails({ description, attributes }: ProductDetailsProps) {
+  const rows = ATTRIBUTE_LABELS.filter(([key]) => attributes?.[key]?.trim());
+  const care = attributes?.careInstructions?.trim();
+
+  if (!description?.trim() && rows.length === 0 && !care) return null;
+
+  return (
+    <div className="space-y-5">
+      {description?.trim() ? (
+        <p className="text-sm text-muted-foreground leading-relaxed font-light whitespace-pre-wrap">
+          {description}
+        </p>
+      ) : null}
+
+      {rows.length ? (
+        <div className="space-y-3">
+          {rows.map(([key, label]) => (
+            <div key={key} className="flex justify-between items-baseline gap-4 border-b border-border pb-2">
+              <span className="text-muted-foreground text-xs uppercase tracking-widest shrink-0">{label}</span>
+              <span className="text-xs sm:text-sm text-right">{attributes?.[key]}</span>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {care ? (
+        <div className="space-y-1">
+          <p className="text-muted-foreground text-xs uppercase tracking-widest">Уход</p>
+          <p className="text-xs sm:text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">{care}</p>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { cn } from "@/lib/utils";
+
+interface ProductGalleryProps {
+  images: string[];
+  alt: string;
+  /** Applied to every slide image, e.g. to set the aspect ratio. */
+  imageClassName?: string;
+  className?: string;
+}
+
+export function ProductGallery({ images, alt, imageClassName, className }: ProductGalleryProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    api.on("reInit", onSelect);
+    return () => {
+      api.off("select", onSelect);
+      api.off("reInit", onSelect);
+    };
+  }, [api]);
+
+  if (images.length <= 1) {
+    return (
+      <div className={className}>
+        <img src={images[0]} alt={alt} className={cn("w-full h-full object-cover", imageClassName)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <Carousel setApi={setApi} opts={{ loop: true }} className="w-full">
+        <CarouselContent className="ml-0">
+          {images.map((src, index) => (
+            <CarouselItem key={`${src}-${index}`} className="pl-0">
+              <img
+                src={src}
+                alt={`${alt} — фото ${index + 1}`}
+                loading={index === 0 ? "eager" : "lazy"}
+                className={cn("w-full h-full object-cover", imageClassName)}
+              />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious className="left-3 bg-background/80 border-none" />
+        <CarouselNext className="right-3 bg-background/80 border-none" />
+      </Carousel>
+
+      <div className="flex justify-center gap-2">
+        {images.map((src, index) => (
+          <button
+            key={`${src}-${index}`}
+            type="button"
+            onClick={() => api?.scrollTo(index)}
+            aria-label={`Показать фото ${index + 1}`}
+            aria-current={current === index}
+            className={cn(
+              "h-1.5 rounded-full transition-all duration-300",
+              current === index ? "w-6 bg-primary" : "w-1.5 bg-primary/30 hover:bg-primary/60",
+            )}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import type { ProductVariant } from "@/data/catalog";
+import { cn } from "@/lib/utils";
+
+type VariantView = {
+  price: string | null;
+  inStock: boolean | undefined;
+  images: string[];
+};
+
+/** Price, stock and gallery to show for the selected variant (falls back to the product). */
+export function getVariantView(
+  product: { price: string | null; inStock?: boolean; images: string[] },
+  variant: ProductVariant | null,
+): VariantView {
+  if (!variant) return { price: product.price, inStock: product.inStock, images: product.images };
+
+  const images = variant.image
+    ? [variant.image, ...product.images.filter((src) => src !== variant.image)]
+    : product.images;
+
+  return {
+    price: variant.price ?? product.price,
+    inStock: variant.inStock,
+    images,
+  };
+}
+
+interface ProductVariantPickerProps {
+  variants: ProductVariant[];
+  selectedId: number | null;
+  onSelect: (variant: ProductVariant) => void;
+}
+
+export function ProductVariantPicker({ variants, selectedId, onSelect }: ProductVariantPickerProps) {
+  if (!variants.length) return null;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-muted-foreground text-xs sm:text-sm uppercase tracking-widest">Вариант</p>
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Вариант товара">
+        {variants.map((variant) => {
+          const selected = variant.id === selectedId;
+          return (
+            <button
+              key={variant.id}
+              type="button"
+              role="radio"
+              aria-checked={selected}
+              onClick={() => onSelect(variant)}
+              className={cn(
+                "px-3 py-1.5 text-xs tracking-wide border transition-colors",
+                selected
+                  ? "border-primary text-primary"
+                  : "border-border text-foreground hover:border-primary/60",
+                !variant.inStock && "text-muted-foreground line-through decoration-muted-foreground/50",
+              )}
+            >
+              {variant.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import type { ReactNode } from "react";
+import { Redirect, useLocation } from "wouter";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/lib/supabaseClient";
+import { useAdminRole, useAuthSession } from "@/hooks/use-auth";
+
+export const ADMIN_LOGIN_PATH = "/admin/login";
+
+function GuardMessage({ title, children }: { title: string; children?: ReactNode }) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-6">
+      <div className="max-w-sm text-center space-y-4">
+        <h1 className="font-serif text-3xl text-foreground">{title}</h1>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Renders the admin panel only for signed-in users with a role in `admin_users`;
+ * anonymous visitors are sent to the login page.
+ */
+export function AdminGuard({ children }: { children: ReactNode }) {
+  const { session, user, loading } = useAuthSession();
+  const roleQuery = useAdminRole(user?.id ?? null);
+  const [location] = useLocation();
+
+  if (loading || (session && roleQuery.isLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Redirect to={`${ADMIN_LOGIN_PATH}?next=${encodeURIComponent(location)}`} replace />;
+  }
+
+  if (roleQuery.isError) {
+    return (
+      <GuardMessage title="Ошибка">
+        <p className="text-sm text-muted-foreground">Не удалось проверить права доступа.</p>
+        <Button variant="outline" onClick={() => roleQuery.refetch()}>
+          Повторить
+        </Button>
+      </GuardMessage>
+    );
+  }
+
+  if (!roleQuery.data) {
+    return (
+      <GuardMessage title="Нет доступа">
+        <p className="text-sm text-muted-foreground">
+          У аккаунта {user?.email ?? ""} нет роли в панели управления. Обратитесь к владельцу магазина.
+        </p>
+        <Button variant="outline" onClick={() => supabase.auth.signOut()}>
+          Выйти
+        </Button>
+      </GuardMessage>
+    );
+  }
+
+  return <>{children}</>;
+}
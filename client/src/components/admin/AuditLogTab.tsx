@@ -0,0 +1,343 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/lib/supabaseClient";
+import { formatDateTime, getStatusLabel, toFiniteNumber } from "@/lib/adminUtils";
+
+const ALL_VALUE = "__all__";
+const PAGE_SIZE = 20;
+
+const ENTITY_LABELS: Record<string, string> = {
+  category: "Категория",
+  product: "Товар",
+  request: "Заявка",
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "Создание",
+  update: "Изменение",
+  delete: "В корзину",
+  restore: "Восстановление",
+  purge: "Удаление навсегда",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Название",
+  slug: "Slug",
+  description: "Описание",
+  category_id: "Категория",
+  price: "Цена",
+  in_stock: "Наличие",
+  image: "Фото",
+  material: "Материал",
+  dimensions: "Размеры",
+  weight: "Вес",
+  color: "Цвет",
+  care_instructions: "Уход",
+  status: "Статус",
+  deleted_at: "В корзине с",
+};
+
+type AuditEntry = {
+  id: number;
+  actor_email: string | null;
+  entity: string;
+  entity_id: number;
+  entity_label: string | null;
+  action: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+};
+
+type AuditFilters = {
+  entity: string | null;
+  action: string | null;
+  actor: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: AuditFilters = { entity: null, action: null, actor: "", from: "", to: "" };
+
+function formatAuditValue(key: string, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (key === "status") return getStatusLabel(String(value));
+  if (key === "deleted_at") return formatDateTime(String(value));
+  if (typeof value === "boolean") return value ? "Да" : "Нет";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+function AuditChanges({ entry }: { entry: AuditEntry }) {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  // Updates (including trash / restore) store only changed columns on both sides;
+  // create and purge store the whole row on one side.
+  const isDiff = entry.before !== null && entry.after !== null;
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(
+    (key) => key !== "id" && (isDiff || (entry.after ? after[key] : before[key]) != null),
+  );
+
+  if (!keys.length) return <span className="text-muted-foreground">—</span>;
+
+  return (
+    <ul className="space-y-1">
+      {keys.map((key) => (
+        <li key={key} className="text-xs">
+          <span className="text-muted-foreground">{FIELD_LABELS[key] ?? key}: </span>
+          {isDiff ? (
+            <>
+              <span className="line-through text-muted-foreground">{formatAuditValue(key, before[key])}</span>
+              {" → "}
+              <span>{formatAuditValue(key, after[key])}</span>
+            </>
+          ) : (
+            <span>{formatAuditValue(key, entry.after ? after[key] : before[key])}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** "История" tab: who changed what in the catalog and in request statuses. */
+export function AuditLogTab() {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [actorDraft, setActorDraft] = useState("");
+  const [page, setPage] = useState(1);
+
+  useEffect(() => setPage(1), [filters]);
+
+  const auditQuery = useQuery({
+    queryKey: ["adminAudit", filters, page],
+    placeholderData: keepPreviousData,
+    // New entries appear after any change elsewhere in the panel: refetch whenever the tab opens
+    staleTime: 0,
+    queryFn: async () => {
+      const from = (page - 1) * PAGE_SIZE;
+      const to = from + PAGE_SIZE - 1;
+
+      let query = supabase
+        .from("audit_log")
+        .select("id,actor_email,entity,entity_id,entity_label,action,before,after,created_at", { count: "exact" })
+        .order("created_at", { ascending: false })
+        .range(from, to);
+
+      if (filters.entity) query = query.eq("entity", filters.entity);
+      if (filters.action) query = query.eq("action", filters.action);
+      if (filters.actor.trim()) query = query.ilike("actor_email", `%${filters.actor.trim()}%`);
+      if (filters.from) query = query.gte("created_at", new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) {
+        const end = new Date(`${filters.to}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        query = query.lt("created_at", end.toISOString());
+      }
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+
+      const items = ((data ?? []) as Array<Record<string, unknown>>).map(
+        (row): AuditEntry => ({
+          id: toFiniteNumber(row.id),
+          actor_email: typeof row.actor_email === "string" ? row.actor_email : null,
+          entity: String(row.entity),
+          entity_id: toFiniteNumber(row.entity_id),
+          entity_label: typeof row.entity_label === "string" ? row.entity_label : null,
+          action: String(row.action),
+          before: (row.before as Record<string, unknown> | null) ?? null,
+          after: (row.after as Record<string, unknown> | null) ?? null,
+          created_at: String(row.created_at),
+        }),
+      );
+
+      return { items, totalPages: Math.max(1, Math.ceil((count ?? 0) / PAGE_SIZE)) };
+    },
+  });
+
+  const totalPages = auditQuery.data?.totalPages ?? 1;
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+
+  return (
+    <div className="mt-6">
+      <div>
+        <h2 className="font-serif text-2xl">История</h2>
+        <p className="text-sm text-muted-foreground">
+          Кто и когда менял категории, товары и статусы заявок.
+        </p>
+      </div>
+
+      <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+        <Select
+          value={filters.entity ?? ALL_VALUE}
+          onValueChange={(v) => setFilters((f) => ({ ...f, entity: v === ALL_VALUE ? null : v }))}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Объект" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_VALUE}>Все объекты</SelectItem>
+            {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.action ?? ALL_VALUE}
+          onValueChange={(v) => setFilters((f) => ({ ...f, action: v === ALL_VALUE ? null : v }))}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Действие" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_VALUE}>Все действия</SelectItem>
+            {Object.entries(ACTION_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Input
+          value={actorDraft}
+          onChange={(e) => setActorDraft(e.target.value)}
+          onBlur={() => setFilters((f) => ({ ...f, actor: actorDraft }))}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") setFilters((f) => ({ ...f, actor: actorDraft }));
+          }}
+          placeholder="Email сотрудника"
+        />
+
+        <Input
+          type="date"
+          value={filters.from}
+          onChange={(e) => setFilters((f) => ({ ...f, from: e.target.value }))}
+          aria-label="С даты"
+        />
+        <Input
+          type="date"
+          value={filters.to}
+          onChange={(e) => setFilters((f) => ({ ...f, to: e.target.value }))}
+          aria-label="По дату"
+        />
+      </div>
+
+      {hasFilters ? (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2 h-auto px-0 py-0 underline underline-offset-4"
+          onClick={() => {
+            setActorDraft("");
+            setFilters(EMPTY_FILTERS);
+          }}
+        >
+          Сбросить фильтры
+        </Button>
+      ) : null}
+
+      <motion.div
+        initial={{ opacity: 0, y: 8 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+        className="mt-6 border border-border rounded-lg bg-card/30"
+      >
+        {auditQuery.isLoading ? (
+          <div className="p-10 flex items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : auditQuery.isError ? (
+          <div className="p-6 text-sm text-muted-foreground">Не удалось загрузить историю.</div>
+        ) : (
+          <>
+            <div className="w-full overflow-x-auto">
+              <Table className="min-w-[860px]">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Дата</TableHead>
+                    <TableHead>Кто</TableHead>
+                    <TableHead>Объект</TableHead>
+                    <TableHead>Действие</TableHead>
+                    <TableHead>Изменения</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(auditQuery.data?.items ?? []).length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-sm text-muted-foreground py-10 text-center">
+                        Записей нет.
+                      </TableCell>
+                    </TableRow>
+                  ) : null}
+
+                  {(auditQuery.data?.items ?? []).map((entry) => (
+                    <TableRow key={entry.id} className="align-top">
+                      <TableCell className="text-muted-foreground text-sm whitespace-nowrap">
+                        {formatDateTime(entry.created_at)}
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.actor_email ?? "Система"}</TableCell>
+                      <TableCell className="text-sm">
+                        {ENTITY_LABELS[entry.entity] ?? entry.entity}
+                        <div className="text-xs text-muted-foreground">
+                          {entry.entity_label ? `${entry.entity_label} · ` : ""}#{entry.entity_id}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{ACTION_LABELS[entry.action] ?? entry.action}</TableCell>
+                      <TableCell>
+                        <AuditChanges entry={entry} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {totalPages > 1 ? (
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 border-t border-border">
+                <span className="text-xs text-muted-foreground">Страница {page} из {totalPages}</span>
+                <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                    disabled={auditQuery.isFetching || page <= 1}
+                    className="w-full sm:w-auto"
+                  >
+                    Назад
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                    disabled={auditQuery.isFetching || page >= totalPages}
+                    className="w-full sm:w-auto"
+                  >
+                    Вперед
+                  </Button>
+                </div>
+              </div>
+            ) : null}
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  downloadCategoriesExport,
+  downloadProductsExport,
+  fetchCategoriesForExport,
+  fetchProductsForExport,
+  type ExportFormat,
+} from "@/lib/catalogExport";
+import { getDbErrorMessage } from "@/lib/adminUtils";
+import { useToast } from "@/hooks/use-toast";
+
+type CatalogExportMenuProps =
+  | { kind: "categories" }
+  | {
+      kind: "products";
+      /** Current products tab filter; null when all categories are shown. */
+      category: { id: number; slug: string; name: string } | null;
+    };
+
+/** "Экспорт" dropdown for the products and categories tabs. */
+export function CatalogExportMenu(props: CatalogExportMenuProps) {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const run = async (format: ExportFormat, scope: "filtered" | "all") => {
+    setExporting(true);
+    try {
+      if (props.kind === "categories") {
+        const rows = await fetchCategoriesForExport();
+        downloadCategoriesExport(rows, format);
+        toast({ title: `Выгружено категорий: ${rows.length}` });
+        return;
+      }
+
+      const category = scope === "filtered" ? props.category : null;
+      const rows = await fetchProductsForExport(category?.id ?? null);
+      downloadProductsExport(rows, format, category?.slug ?? "all");
+      toast({ title: `Выгружено товаров: ${rows.length}` });
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось выгрузить данные"),
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const filteredCategory = props.kind === "products" ? props.category : null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="gap-2 w-full sm:w-auto" disabled={exporting}>
+          {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          Экспорт
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {filteredCategory ? (
+          <>
+            <DropdownMenuLabel className="font-normal text-muted-foreground">
+              Категория «{filteredCategory.name}»
+            </DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => run("csv", "filtered")}>CSV</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => run("json", "filtered")}>JSON</DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="font-normal text-muted-foreground">Весь каталог</DropdownMenuLabel>
+          </>
+        ) : null}
+        <DropdownMenuItem onSelect={() => run("csv", "all")}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => run("json", "all")}>JSON</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,473 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { keepPreviousData, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Merge } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/lib/supabaseClient";
+import { formatDateTime, getDbErrorMessage, getStatusLabel, toFiniteNumber } from "@/lib/adminUtils";
+import { formatPhone, getPhoneDigits, normalizePhone } from "@/lib/phone";
+import { useToast } from "@/hooks/use-toast";
+
+const PAGE_SIZE = 20;
+
+type CustomerRequest = {
+  id: number;
+  status: string | null;
+  created_at: string;
+  client_name: string | null;
+  client_phone: string | null;
+  client_message: string | null;
+  products: string[];
+};
+
+type Customer = {
+  id: number;
+  name: string | null;
+  created_at: string;
+  phones: string[];
+  requests: CustomerRequest[];
+};
+
+const CUSTOMER_SELECT =
+  "id,name,created_at,customer_phones(phone),requests(id,status,created_at,client_name,client_phone,client_message,request_items(product_name,position))";
+
+function mapCustomer(row: Record<string, unknown>): Customer {
+  const phones = (row.customer_phones as Array<{ phone: string }> | null) ?? [];
+  const requests = (row.requests as Array<Record<string, unknown>> | null) ?? [];
+  return {
+    id: toFiniteNumber(row.id),
+    name: typeof row.name === "string" ? row.name : null,
+    created_at: String(row.created_at),
+    phones: phones.map((p) => p.phone).sort(),
+    requests: requests
+      .map((r) => ({
+        id: toFiniteNumber(r.id),
+        status: typeof r.status === "string" ? r.status : null,
+        created_at: String(r.created_at),
+        client_name: typeof r.client_name === "string" ? r.client_name : null,
+        client_phone: typeof r.client_phone === "string" ? r.client_phone : null,
+        client_message: typeof r.client_message === "string" ? r.client_message : null,
+        products: ((r.request_items as Array<{ product_name: string; position: number }> | null) ?? [])
+          .slice()
+          .sort((a, b) => a.position - b.position)
+          .map((item) => item.product_name),
+      }))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+  };
+}
+
+async function fetchCustomer(id: number): Promise<Customer | null> {
+  const { data, error } = await supabase.from("customers").select(CUSTOMER_SELECT).eq("id", id).maybeSingle();
+  if (error) throw error;
+  return data ? mapCustomer(data as Record<string, unknown>) : null;
+}
+
+function CustomerDetails({
+  customerId,
+  onClose,
+  onMerged,
+}: {
+  customerId: number;
+  onClose: () => void;
+  onMerged: (targetId: number) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [mergeSearch, setMergeSearch] = useState("");
+  const [mergeCandidate, setMergeCandidate] = useState<Customer | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  const customerQuery = useQuery({
+    queryKey: ["adminCustomer", customerId],
+    staleTime: 0,
+    queryFn: () => fetchCustomer(customerId),
+  });
+  const customer = customerQuery.data ?? null;
+
+  // Same name, different phone: the usual shape of a duplicate
+  const duplicatesQuery = useQuery({
+    queryKey: ["adminCustomerDuplicates", customerId, customer?.name ?? null],
+    enabled: !!customer?.name,
+    staleTime: 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("customers")
+        .select(CUSTOMER_SELECT)
+        .ilike("name", customer?.name ?? "")
+        .neq("id", customerId)
+        .limit(5);
+      if (error) throw error;
+      return ((data ?? []) as Array<Record<string, unknown>>).map(mapCustomer);
+    },
+  });
+
+  const findByPhone = async () => {
+    // A full number is matched exactly, a fragment by the ending of the stored number
+    const e164 = normalizePhone(mergeSearch);
+    const digits = getPhoneDigits(mergeSearch);
+    if (!e164 && digits.length < 5) {
+      toast({ title: "Введите номер телефона" });
+      return;
+    }
+    try {
+      const phones = supabase.from("customer_phones").select("customer_id");
+      const { data, error } = await (e164 ? phones.eq("phone", e164) : phones.like("phone", `%${digits}`))
+        .neq("customer_id", customerId)
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      const found = data ? await fetchCustomer(toFiniteNumber((data as { customer_id: unknown }).customer_id)) : null;
+      if (!found) {
+        toast({ title: "Другой клиент с таким номером не найден" });
+        return;
+      }
+      setMergeCandidate(found);
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось найти клиента"),
+      });
+    }
+  };
+
+  const merge = async (source: Customer) => {
+    setMerging(true);
+    try {
+      const { error } = await supabase.rpc("merge_customers", { p_target: customerId, p_source: source.id });
+      if (error) throw error;
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["adminCustomers"] }),
+        queryClient.invalidateQueries({ queryKey: ["adminCustomer"] }),
+        queryClient.invalidateQueries({ queryKey: ["adminCustomerDuplicates"] }),
+        queryClient.invalidateQueries({ queryKey: ["adminRequests"] }),
+      ]);
+      toast({ title: "Клиенты объединены" });
+      setMergeCandidate(null);
+      setMergeSearch("");
+      onMerged(customerId);
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось объединить клиентов"),
+      });
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !merging && onClose()}>
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-2xl h-[90dvh] sm:h-auto max-h-[90dvh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{customer?.name ?? "Клиент"}</DialogTitle>
+        </DialogHeader>
+
+        {customerQuery.isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : !customer ? (
+          <div className="text-sm text-muted-foreground">Клиент не найден — возможно, он объединён с другим.</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="rounded-lg border border-border p-3">
+                <div className="text-xs uppercase tracking-widest text-muted-foreground">Телефоны</div>
+                <div className="mt-1 font-medium space-y-0.5">
+                  {customer.phones.map((phone) => (
+                    <div key={phone}>{formatPhone(phone)}</div>
+                  ))}
+                </div>
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <div className="text-xs uppercase tracking-widest text-muted-foreground">Первая заявка</div>
+                <div className="mt-1 text-sm text-muted-foreground">{formatDateTime(customer.created_at)}</div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-xs uppercase tracking-widest text-muted-foreground">
+                Заявки ({customer.requests.length})
+              </div>
+              <ul className="divide-y divide-border rounded-lg border border-border">
+                {customer.requests.map((r) => (
+                  <li key={r.id} className="p-3 text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{r.products.length ? r.products.join(", ") : "Без товара"}</span>
+                      <span className="text-xs rounded-full border border-border px-2 py-0.5">
+                        {getStatusLabel(r.status)}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatDateTime(r.created_at)}
+                      {r.client_name ? ` · ${r.client_name}` : ""}
+                      {r.client_phone ? ` · ${formatPhone(r.client_phone)}` : ""}
+                    </div>
+                    {r.client_message ? <div className="text-xs whitespace-pre-wrap">{r.client_message}</div> : null}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="rounded-lg border border-border p-4 space-y-3">
+              <div className="text-xs uppercase tracking-widest text-muted-foreground">Объединить дубликаты</div>
+              {(duplicatesQuery.data ?? []).map((dup) => (
+                <div key={dup.id} className="flex items-center justify-between gap-3 text-sm">
+                  <span>
+                    {dup.name ?? "—"} · {dup.phones.map(formatPhone).join(", ")} · заявок: {dup.requests.length}
+                  </span>
+                  <Button variant="outline" size="sm" className="gap-2" onClick={() => setMergeCandidate(dup)}>
+                    <Merge className="h-4 w-4" />
+                    Объединить
+                  </Button>
+                </div>
+              ))}
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  value={mergeSearch}
+                  onChange={(e) => setMergeSearch(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") findByPhone();
+                  }}
+                  placeholder="Телефон другого клиента"
+                />
+                <Button variant="outline" onClick={findByPhone} className="w-full sm:w-auto">
+                  Найти
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <AlertDialog open={!!mergeCandidate} onOpenChange={(open) => !open && !merging && setMergeCandidate(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Объединить клиентов?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Телефоны ({mergeCandidate?.phones.map(formatPhone).join(", ")}) и заявки ({mergeCandidate?.requests.length ?? 0})
+                клиента «{mergeCandidate?.name ?? "—"}» перейдут к «{customer?.name ?? "—"}». Отменить объединение
+                нельзя.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={merging}>Отмена</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(e) => {
+                  e.preventDefault();
+                  if (mergeCandidate) merge(mergeCandidate);
+                }}
+                disabled={merging}
+                className="gap-2"
+              >
+                {merging ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                Объединить
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** "Клиенты" tab: requests grouped by the client's phone number. */
+export function CustomersTab({
+  focusCustomerId,
+  onFocusHandled,
+}: {
+  /** Customer to open right away, e.g. when coming from the request dialog. */
+  focusCustomerId: number | null;
+  onFocusHandled: () => void;
+}) {
+  const [search, setSearch] = useState("");
+  const [searchDraft, setSearchDraft] = useState("");
+  const [page, setPage] = useState(1);
+  const [openCustomerId, setOpenCustomerId] = useState<number | null>(null);
+
+  useEffect(() => setPage(1), [search]);
+
+  useEffect(() => {
+    if (focusCustomerId === null) return;
+    setOpenCustomerId(focusCustomerId);
+    onFocusHandled();
+  }, [focusCustomerId]);
+
+  const customersQuery = useQuery({
+    queryKey: ["adminCustomers", search, page],
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+    queryFn: async () => {
+      const from = (page - 1) * PAGE_SIZE;
+      const to = from + PAGE_SIZE - 1;
+      const term = search.trim();
+      const digits = getPhoneDigits(term);
+
+      // A phone search matches any of the customer's numbers through an inner-joined embed
+      const select = digits.length >= 3 ? `${CUSTOMER_SELECT},match:customer_phones!inner(phone)` : CUSTOMER_SELECT;
+      let query = supabase
+        .from("customers")
+        .select(select, { count: "exact" })
+        .order("created_at", { ascending: false })
+        .range(from, to);
+      if (digits.length >= 3) query = query.like("match.phone", `%${digits}%`);
+      else if (term) query = query.ilike("name", `%${term}%`);
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+
+      return {
+        items: ((data ?? []) as unknown as Array<Record<string, unknown>>).map(mapCustomer),
+        totalPages: Math.max(1, Math.ceil((count ?? 0) / PAGE_SIZE)),
+      };
+    },
+  });
+
+  const totalPages = customersQuery.data?.totalPages ?? 1;
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="font-serif text-2xl">Клиенты</h2>
+          <p className="text-sm text-muted-foreground">Заявки, сгруппированные по номеру телефона.</p>
+        </div>
+        <Input
+          value={searchDraft}
+          onChange={(e) => setSearchDraft(e.target.value)}
+          onBlur={() => setSearch(searchDraft)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") setSearch(searchDraft);
+          }}
+          placeholder="Имя или телефон"
+          className="sm:max-w-xs"
+        />
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 8 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+        className="mt-6 border border-border rounded-lg bg-card/30"
+      >
+        {customersQuery.isLoading ? (
+          <div className="p-10 flex items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : customersQuery.isError ? (
+          <div className="p-6 text-sm text-muted-foreground">Не удалось загрузить клиентов.</div>
+        ) : (
+          <>
+            <div className="w-full overflow-x-auto">
+              <Table className="min-w-[760px]">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Клиент</TableHead>
+                    <TableHead>Телефон</TableHead>
+                    <TableHead>Заявки</TableHead>
+                    <TableHead>Интересовался</TableHead>
+                    <TableHead>Последняя заявка</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(customersQuery.data?.items ?? []).length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-sm text-muted-foreground py-10 text-center">
+                        {search ? "Ничего не найдено." : "Клиентов пока нет."}
+                      </TableCell>
+                    </TableRow>
+                  ) : null}
+
+                  {(customersQuery.data?.items ?? []).map((c) => {
+                    const latest = c.requests[0];
+                    const products = Array.from(new Set(c.requests.flatMap((r) => r.products)));
+                    return (
+                      <TableRow key={c.id} className="cursor-pointer" onClick={() => setOpenCustomerId(c.id)}>
+                        <TableCell className="font-medium">{c.name ?? "—"}</TableCell>
+                        <TableCell className="text-muted-foreground text-sm">{c.phones.map(formatPhone).join(", ")}</TableCell>
+                        <TableCell className="text-sm">{c.requests.length}</TableCell>
+                        <TableCell className="text-muted-foreground text-sm">
+                          {products.length ? products.slice(0, 3).join(", ") : "—"}
+                          {products.length > 3 ? ` и ещё ${products.length - 3}` : ""}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground text-sm">
+                          {latest ? (
+                            <>
+                              {formatDateTime(latest.created_at)}
+                              <div className="text-xs">{getStatusLabel(latest.status)}</div>
+                            </>
+                          ) : (
+                            "—"
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            {totalPages > 1 ? (
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 border-t border-border">
+                <span className="text-xs text-muted-foreground">Страница {page} из {totalPages}</span>
+                <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                    disabled={customersQuery.isFetching || page <= 1}
+                    className="w-full sm:w-auto"
+                  >
+                    Назад
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                    disabled={customersQuery.isFetching || page >= totalPages}
+                    className="w-full sm:w-auto"
+                  >
+                    Вперед
+                  </Button>
+                </div>
+              </div>
+            ) : null}
+          </>
+        )}
+      </motion.div>
+
+      {openCustomerId !== null ? (
+        <CustomerDetails
+          key={openCustomerId}
+          customerId={openCustomerId}
+          onClose={() => setOpenCustomerId(null)}
+          onMerged={setOpenCustomerId}
+        />
+      ) : null}
+    </div>
+  );
+}
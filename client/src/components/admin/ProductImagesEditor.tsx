@@ -0,0 +1,280 @@
+import { useRef, useState, type Dispatch, type SetStateAction } from "react";
+import imageCompression from "browser-image-compression";
+import { ChevronLeft, ChevronRight, Loader2, Star, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+
+export type ProductImageDraft = {
+  key: string;
+  /** Public URL of an already uploaded image; null until `file` is uploaded on save. */
+  url: string | null;
+  file: File | null;
+  previewUrl: string;
+  originalBytes: number | null;
+  compressedBytes: number | null;
+  compressing: boolean;
+};
+
+export function createImageDraftFromUrl(url: string): ProductImageDraft {
+  return {
+    key: url,
+    url,
+    file: null,
+    previewUrl: url,
+    originalBytes: null,
+    compressedBytes: null,
+    compressing: false,
+  };
+}
+
+export function revokeImageDrafts(drafts: ProductImageDraft[]) {
+  drafts.forEach((d) => {
+    if (d.previewUrl.startsWith("blob:")) URL.revokeObjectURL(d.previewUrl);
+  });
+}
+
+async function compressProductImage(file: File): Promise<File> {
+  // Practical defaults for product photos: keep decent quality, limit dimensions and file size.
+  // Uses a web worker to avoid blocking the UI.
+  return await imageCompression(file, {
+    maxSizeMB: 0.6,
+    maxWidthOrHeight: 1600,
+    useWebWorker: true,
+    initialQuality: 0.82,
+    fileType: "image/jpeg",
+  });
+}
+
+function formatBytes(bytes: number): string {
+  if (!Number.isFinite(bytes) || bytes < 0) return "—";
+  if (bytes < 1024) return `${bytes} B`;
+  const kb = bytes / 1024;
+  if (kb < 1024) return `${kb.toFixed(1)} KB`;
+  const mb = kb / 1024;
+  return `${mb.toFixed(2)} MB`;
+}
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+  const next = items.slice();
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+interface ProductImagesEditorProps {
+  images: ProductImageDraft[];
+  onChange: Dispatch<SetStateAction<ProductImageDraft[]>>;
+  disabled?: boolean;
+}
+
+/**
+ * Ordered photo list for the product dialog. The first image is the primary one
+ * (shown in listings); images can be reordered by drag and drop or the arrow buttons.
+ */
+export function ProductImagesEditor({ images, onChange, disabled }: ProductImagesEditorProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const updateDraft = (key: string, patch: Partial<ProductImageDraft>) => {
+    onChange((prev) => prev.map((d) => (d.key === key ? { ...d, ...patch } : d)));
+  };
+
+  const addFiles = (files: File[]) => {
+    const drafts = files.map((file): ProductImageDraft => {
+      const key =
+        typeof crypto !== "undefined" && "randomUUID" in crypto
+          ? crypto.randomUUID()
+          : Math.random().toString(16).slice(2);
+      return {
+        key,
+        url: null,
+        file: null,
+        previewUrl: "",
+        originalBytes: file.size,
+        compressedBytes: null,
+        compressing: true,
+      };
+    });
+
+    onChange((prev) => [...prev, ...drafts]);
+
+    drafts.forEach(async (draft, i) => {
+      const selected = files[i];
+      try {
+        const compressed = await compressProductImage(selected);
+        updateDraft(draft.key, {
+          file: compressed,
+          compressedBytes: compressed.size,
+          previewUrl: URL.createObjectURL(compressed),
+          compressing: false,
+        });
+      } catch {
+        toast({
+          variant: "destructive",
+          title: "Ошибка",
+          description: `Не удалось сжать «${selected.name}», будет загружен оригинал`,
+        });
+
+        // Fallback: allow upload of original file.
+        updateDraft(draft.key, {
+          file: selected,
+          compressedBytes: selected.size,
+          previewUrl: URL.createObjectURL(selected),
+          compressing: false,
+        });
+      }
+    });
+  };
+
+  const removeAt = (index: number) => {
+    onChange((prev) => {
+      const removed = prev[index];
+      if (removed) revokeImageDrafts([removed]);
+      return prev.filter((_, i) => i !== index);
+    });
+  };
+
+  const compressing = images.some((d) => d.compressing);
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        disabled={disabled}
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = "";
+          if (files.length) addFiles(files);
+        }}
+      />
+
+      {images.length ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {images.map((img, index) => (
+            <div
+              key={img.key}
+              draggable={!disabled}
+              onDragStart={(e) => {
+                setDragIndex(index);
+                e.dataTransfer.effectAllowed = "move";
+              }}
+              onDragOver={(e) => {
+                if (dragIndex === null) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragIndex === null) return;
+                onChange((prev) => moveItem(prev, dragIndex, index));
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={`relative rounded-lg overflow-hidden border bg-secondary/20 cursor-move ${
+                index === 0 ? "border-primary" : "border-border"
+              } ${dragIndex === index ? "opacity-50" : ""}`}
+            >
+              <div className="aspect-square">
+                {img.compressing || !img.previewUrl ? (
+                  <div className="h-full w-full flex items-center justify-center">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : (
+                  <img src={img.previewUrl} alt="" className="h-full w-full object-cover pointer-events-none" />
+                )}
+              </div>
+
+              {index === 0 ? (
+                <span className="absolute top-1 left-1 rounded bg-primary px-1.5 py-0.5 text-[10px] text-primary-foreground">
+                  Главное
+                </span>
+              ) : null}
+
+              <button
+                type="button"
+                onClick={() => removeAt(index)}
+                disabled={disabled}
+                aria-label="Удалить фото"
+                className="absolute top-1 right-1 rounded-full bg-background/90 p-1 hover:bg-background"
+              >
+                <X className="h-3 w-3" />
+              </button>
+
+              <div className="flex items-center justify-between gap-1 px-1 py-1 bg-background/90">
+                <button
+                  type="button"
+                  onClick={() => onChange((prev) => moveItem(prev, index, index - 1))}
+                  disabled={disabled || index === 0}
+                  aria-label="Переместить влево"
+                  className="p-1 disabled:opacity-30"
+                >
+                  <ChevronLeft className="h-3 w-3" />
+                </button>
+                {index !== 0 ? (
+                  <button
+                    type="button"
+                    onClick={() => onChange((prev) => moveItem(prev, index, 0))}
+                    disabled={disabled}
+                    aria-label="Сделать главным"
+                    title="Сделать главным"
+                    className="p-1"
+                  >
+                    <Star className="h-3 w-3" />
+                  </button>
+                ) : null}
+                <button
+                  type="button"
+                  onClick={() => onChange((prev) => moveItem(prev, index, index + 1))}
+                  disabled={disabled || index === images.length - 1}
+                  aria-label="Переместить вправо"
+                  className="p-1 disabled:opacity-30"
+                >
+                  <ChevronRight className="h-3 w-3" />
+                </button>
+              </div>
+
+              {img.originalBytes !== null ? (
+                <p className="px-1 pb-1 text-[10px] text-muted-foreground bg-background/90 truncate">
+                  {formatBytes(img.originalBytes)}
+                  {img.compressedBytes !== null ? ` → ${formatBytes(img.compressedBytes)}` : ""}
+                </p>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Фото ещё не добавлены.</p>
+      )}
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+        className="h-auto px-0 py-0 underline underline-offset-4"
+      >
+        {compressing ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Сжимаю…
+          </>
+        ) : (
+          "Добавить фото"
+        )}
+      </Button>
+
+      {images.length > 1 ? (
+        <p className="text-xs text-muted-foreground">
+          Перетащите фото, чтобы изменить порядок. Первое фото — главное.
+        </p>
+      ) : null}
+    </div>
+  );
+}
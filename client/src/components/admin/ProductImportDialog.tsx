@@ -0,0 +1,433 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { FileUp, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/lib/supabaseClient";
+import { parseCsv } from "@/lib/csv";
+import { formatMoney, getDbErrorMessage, slugify, toFiniteNumber } from "@/lib/adminUtils";
+import { useToast } from "@/hooks/use-toast";
+
+const BATCH_SIZE = 50;
+
+type ImportColumn = "name" | "category" | "price" | "in_stock" | "image" | "description";
+
+// Header cell (lowercased) → column; Russian headers are accepted for hand-made sheets
+const HEADER_ALIASES: Record<string, ImportColumn> = {
+  name: "name",
+  название: "name",
+  category: "category",
+  category_slug: "category",
+  категория: "category",
+  price: "price",
+  цена: "price",
+  in_stock: "in_stock",
+  наличие: "in_stock",
+  image: "image",
+  image_url: "image",
+  фото: "image",
+  description: "description",
+  описание: "description",
+};
+
+const TRUE_VALUES = ["1", "true", "yes", "да", "+"];
+const FALSE_VALUES = ["0", "false", "no", "нет", "-"];
+
+type ImportRow = {
+  /** Line in the file, header included, so errors can be found in the spreadsheet. */
+  line: number;
+  name: string;
+  categoryLabel: string | null;
+  categorySlug: string | null;
+  newCategory: boolean;
+  price: number | null;
+  inStock: boolean;
+  image: string | null;
+  description: string | null;
+  errors: string[];
+};
+
+type ImportSummary = {
+  created: number;
+  categoriesCreated: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+};
+
+type ExistingCategory = { id: number; slug: string; deleted: boolean };
+
+/**
+ * Existing categories by lowercased name and by slug. Names are matched first: a name's slug
+ * may differ from the stored one, and `slugify` does not know every letter (Tajik ones).
+ */
+type CategoryIndex = { byName: Map<string, ExistingCategory>; bySlug: Map<string, ExistingCategory> };
+
+function validateRows(cells: string[][], categories: CategoryIndex): ImportRow[] {
+  const header = cells[0].map((h) => HEADER_ALIASES[h.trim().toLowerCase()]);
+  if (!header.includes("name")) {
+    throw new Error("В первой строке нет колонки name — проверьте заголовки файла");
+  }
+
+  // One slug per new category, however many rows name it
+  const newSlugByLabel = new Map<string, string>();
+  const newCategorySlug = (label: string) => {
+    const key = label.toLowerCase();
+    const known = newSlugByLabel.get(key);
+    if (known) return known;
+    const base = slugify(label);
+    const taken = new Set(newSlugByLabel.values());
+    let slug = base;
+    for (let n = 2; taken.has(slug) || categories.bySlug.has(slug); n++) slug = `${base}-${n}`;
+    newSlugByLabel.set(key, slug);
+    return slug;
+  };
+
+  return cells.slice(1).map((cellsRow, index) => {
+    const get = (column: ImportColumn) => {
+      const i = header.indexOf(column);
+      return i === -1 ? "" : (cellsRow[i] ?? "").trim();
+    };
+    const errors: string[] = [];
+
+    const name = get("name");
+    if (!name) errors.push("Нет названия");
+
+    const categoryLabel = get("category") || null;
+    const existing = categoryLabel
+      ? categories.byName.get(categoryLabel.toLowerCase()) ??
+        categories.bySlug.get(categoryLabel.toLowerCase()) ??
+        categories.bySlug.get(slugify(categoryLabel))
+      : undefined;
+    const categorySlug = existing ? existing.slug : categoryLabel ? newCategorySlug(categoryLabel) : null;
+    if (existing?.deleted) errors.push(`Категория «${categorySlug}» в корзине`);
+
+    const priceRaw = get("price").replace(/\s/g, "").replace(",", ".");
+    const price = priceRaw ? Number(priceRaw) : null;
+    if (price !== null && (!Number.isFinite(price) || price < 0)) errors.push("Цена должна быть числом");
+
+    const stockRaw = get("in_stock").toLowerCase();
+    let inStock = true;
+    if (FALSE_VALUES.includes(stockRaw)) inStock = false;
+    else if (stockRaw && !TRUE_VALUES.includes(stockRaw)) errors.push("Наличие: ожидается да/нет или 1/0");
+
+    const image = get("image") || null;
+    if (image && !/^https?:\/\/\S+$/i.test(image)) errors.push("Фото должно быть ссылкой http(s)");
+
+    return {
+      line: index + 2,
+      name,
+      categoryLabel,
+      categorySlug,
+      newCategory: !!categorySlug && !existing,
+      price: price !== null && Number.isFinite(price) ? price : null,
+      inStock,
+      image,
+      description: get("description") || null,
+      errors,
+    };
+  });
+}
+
+/** Bulk product import from CSV: validated preview, then batched inserts with a summary. */
+export function ProductImportDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [categories, setCategories] = useState<CategoryIndex>({ byName: new Map(), bySlug: new Map() });
+  const [parsing, setParsing] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const reset = () => {
+    setFileName(null);
+    setRows(null);
+    setParseError(null);
+    setProgress(0);
+    setSummary(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (importing) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    setFileName(file.name);
+    setParsing(true);
+    try {
+      const cells = parseCsv(await file.text());
+      if (cells.length < 2) throw new Error("В файле нет строк с товарами");
+
+      // Trashed categories count too: their slugs are still taken
+      const { data, error } = await supabase.from("categories").select("id,name,slug,deleted_at");
+      if (error) throw error;
+      const index: CategoryIndex = { byName: new Map(), bySlug: new Map() };
+      ((data ?? []) as Array<{ id: unknown; name: string; slug: string; deleted_at: string | null }>).forEach((c) => {
+        const category = { id: toFiniteNumber(c.id), slug: c.slug, deleted: !!c.deleted_at };
+        index.bySlug.set(c.slug, category);
+        const nameKey = c.name.trim().toLowerCase();
+        const sameName = index.byName.get(nameKey);
+        // A live category wins over a trashed one with the same name
+        if (!sameName || sameName.deleted) index.byName.set(nameKey, category);
+      });
+
+      setCategories(index);
+      setRows(validateRows(cells, index));
+    } catch (error: unknown) {
+      setParseError(getDbErrorMessage(error, "Не удалось прочитать файл"));
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const validRows = (rows ?? []).filter((r) => !r.errors.length);
+  const invalidCount = (rows ?? []).length - validRows.length;
+  const newCategorySlugs = Array.from(
+    new Set(validRows.filter((r) => r.newCategory).map((r) => r.categorySlug as string)),
+  );
+
+  const runImport = async () => {
+    if (!validRows.length) return;
+    setImporting(true);
+    setProgress(0);
+
+    const result: ImportSummary = {
+      created: 0,
+      categoriesCreated: 0,
+      skipped: invalidCount,
+      failed: 0,
+      errors: [],
+    };
+
+    try {
+      const categoryIdBySlug = new Map<string, number>();
+      categories.bySlug.forEach((c, slug) => categoryIdBySlug.set(slug, c.id));
+
+      if (newCategorySlugs.length) {
+        const { data, error } = await supabase
+          .from("categories")
+          .insert(
+            newCategorySlugs.map((slug) => ({
+              slug,
+              name: validRows.find((r) => r.categorySlug === slug)?.categoryLabel ?? slug,
+            })),
+          )
+          .select("id,slug");
+        if (error) throw error;
+        ((data ?? []) as Array<{ id: unknown; slug: string }>).forEach((c) =>
+          categoryIdBySlug.set(c.slug, toFiniteNumber(c.id)),
+        );
+        result.categoriesCreated = newCategorySlugs.length;
+      }
+
+      for (let start = 0; start < validRows.length; start += BATCH_SIZE) {
+        const batch = validRows.slice(start, start + BATCH_SIZE);
+        const { data, error } = await supabase
+          .from("products")
+          .insert(
+            batch.map((r) => ({
+              name: r.name,
+              description: r.description,
+              category_id: r.categorySlug ? categoryIdBySlug.get(r.categorySlug) ?? null : null,
+              in_stock: r.inStock,
+              price: r.price,
+              image: r.image,
+            })),
+          )
+          .select("id,image");
+
+        if (error) {
+          result.failed += batch.length;
+          result.errors.push(
+            `Строки ${batch[0].line}–${batch[batch.length - 1].line}: ${getDbErrorMessage(error, "ошибка записи")}`,
+          );
+        } else {
+          const inserted = (data ?? []) as Array<{ id: unknown; image: string | null }>;
+          result.created += inserted.length;
+
+          // Keep the gallery in sync with `products.image`, as the product dialog does
+          const imageRows = inserted
+            .filter((p) => p.image)
+            .map((p) => ({ product_id: toFiniteNumber(p.id), url: p.image as string, position: 0 }));
+          if (imageRows.length) {
+            const { error: imagesError } = await supabase.from("product_images").insert(imageRows);
+            if (imagesError) {
+              result.errors.push(getDbErrorMessage(imagesError, "Не удалось сохранить фото в галерею"));
+            }
+          }
+        }
+
+        setProgress(Math.min(validRows.length, start + batch.length));
+      }
+    } catch (error: unknown) {
+      result.errors.push(getDbErrorMessage(error, "Не удалось создать категории"));
+      result.failed = validRows.length - result.created;
+    } finally {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["adminCategories"] }),
+        queryClient.invalidateQueries({ queryKey: ["adminProducts"] }),
+        queryClient.invalidateQueries({ queryKey: ["categories"] }),
+        queryClient.invalidateQueries({ queryKey: ["products"] }),
+        queryClient.invalidateQueries({ queryKey: ["productsByCategory"] }),
+      ]);
+      setSummary(result);
+      setImporting(false);
+    }
+
+    toast({
+      variant: result.failed ? "destructive" : undefined,
+      title: result.failed ? "Импорт завершён с ошибками" : "Импорт завершён",
+      description: `Добавлено товаров: ${result.created}`,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Импорт товаров</DialogTitle>
+          <DialogDescription>
+            CSV с колонками name, category, price, in_stock, image, description. Категория указывается
+            slug-ом или названием; отсутствующие категории будут созданы. Файл XLSX сохраните как CSV.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+          }}
+        />
+
+        {summary ? (
+          <div className="space-y-2 text-sm">
+            <div>Добавлено товаров: {summary.created}</div>
+            <div>Создано категорий: {summary.categoriesCreated}</div>
+            <div>Пропущено строк с ошибками: {summary.skipped}</div>
+            {summary.failed ? <div className="text-destructive">Не записано: {summary.failed}</div> : null}
+            {summary.errors.length ? (
+              <ul className="list-disc pl-5 text-destructive">
+                {summary.errors.map((message, i) => (
+                  <li key={i}>{message}</li>
+                ))}
+              </ul>
+            ) : null}
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <Button
+                variant="outline"
+                className="gap-2 w-full sm:w-auto"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={parsing || importing}
+              >
+                {parsing ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp className="h-4 w-4" />}
+                Выбрать файл
+              </Button>
+              {fileName ? <span className="text-sm text-muted-foreground truncate">{fileName}</span> : null}
+            </div>
+
+            {parseError ? <div className="text-sm text-destructive">{parseError}</div> : null}
+
+            {rows ? (
+              <>
+                <div className="text-sm text-muted-foreground">
+                  Готово к импорту: {validRows.length} из {rows.length}
+                  {invalidCount ? ` · с ошибками: ${invalidCount} (будут пропущены)` : ""}
+                  {newCategorySlugs.length ? ` · новых категорий: ${newCategorySlugs.length}` : ""}
+                </div>
+
+                <div className="border border-border rounded-lg max-h-[45vh] overflow-auto">
+                  <Table className="min-w-[720px]">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[60px]">Строка</TableHead>
+                        <TableHead>Название</TableHead>
+                        <TableHead>Категория</TableHead>
+                        <TableHead>Цена</TableHead>
+                        <TableHead>Наличие</TableHead>
+                        <TableHead>Ошибки</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map((row) => (
+                        <TableRow key={row.line} className={row.errors.length ? "bg-destructive/5" : undefined}>
+                          <TableCell className="text-muted-foreground text-sm">{row.line}</TableCell>
+                          <TableCell className="font-medium">{row.name || "—"}</TableCell>
+                          <TableCell className="text-sm">
+                            {row.categorySlug ?? "—"}
+                            {row.newCategory ? (
+                              <span className="ml-2 text-xs text-muted-foreground">новая</span>
+                            ) : null}
+                          </TableCell>
+                          <TableCell className="text-sm">{formatMoney(row.price)}</TableCell>
+                          <TableCell className="text-sm">{row.inStock ? "Да" : "Нет"}</TableCell>
+                          <TableCell className="text-xs text-destructive">{row.errors.join("; ")}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            ) : null}
+          </>
+        )}
+
+        <DialogFooter>
+          {summary ? (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Импортировать ещё
+              </Button>
+              <Button onClick={() => handleOpenChange(false)}>Готово</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={importing}>
+                Отмена
+              </Button>
+              <Button onClick={runImport} disabled={importing || !validRows.length} className="gap-2">
+                {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                {importing ? `Импорт ${progress}/${validRows.length}` : `Импортировать (${validRows.length})`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
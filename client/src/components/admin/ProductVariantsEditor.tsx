@@ -0,0 +1,174 @@
+import type { Dispatch, SetStateAction } from "react";
+import { ChevronDown, ChevronUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { ProductImageDraft } from "@/components/admin/ProductImagesEditor";
+
+export type ProductVariantDraft = {
+  key: string;
+  /** Database id; null for variants that are not saved yet. */
+  id: number | null;
+  name: string;
+  price: string;
+  inStock: boolean;
+  /** `key` of one of the product image drafts, resolved to a URL on save. */
+  imageKey: string | null;
+};
+
+const NO_IMAGE_VALUE = "__none__";
+
+function newVariantKey(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : Math.random().toString(16).slice(2);
+}
+
+interface ProductVariantsEditorProps {
+  variants: ProductVariantDraft[];
+  onChange: Dispatch<SetStateAction<ProductVariantDraft[]>>;
+  images: ProductImageDraft[];
+  disabled?: boolean;
+}
+
+/** Variant rows for the product dialog: name, own price (optional), stock and photo. */
+export function ProductVariantsEditor({ variants, onChange, images, disabled }: ProductVariantsEditorProps) {
+  const update = (key: string, patch: Partial<ProductVariantDraft>) => {
+    onChange((prev) => prev.map((v) => (v.key === key ? { ...v, ...patch } : v)));
+  };
+
+  const move = (index: number, delta: number) => {
+    onChange((prev) => {
+      const to = index + delta;
+      if (to < 0 || to >= prev.length) return prev;
+      const next = prev.slice();
+      const [item] = next.splice(index, 1);
+      next.splice(to, 0, item);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {variants.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Без вариантов. Добавьте варианты, если товар бывает разных размеров, цветов или глазури.
+        </p>
+      ) : null}
+
+      {variants.map((variant, index) => {
+        const imageExists = variant.imageKey && images.some((img) => img.key === variant.imageKey);
+        return (
+          <div key={variant.key} className="rounded-lg border border-border p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={variant.name}
+                onChange={(e) => update(variant.key, { name: e.target.value })}
+                placeholder="Например: Глазурь «Океан»"
+                disabled={disabled}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => move(index, -1)}
+                disabled={disabled || index === 0}
+                aria-label="Выше"
+              >
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => move(index, 1)}
+                disabled={disabled || index === variants.length - 1}
+                aria-label="Ниже"
+              >
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange((prev) => prev.filter((v) => v.key !== variant.key))}
+                disabled={disabled}
+                aria-label="Удалить вариант"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <Input
+                value={variant.price}
+                onChange={(e) => update(variant.key, { price: e.target.value })}
+                inputMode="decimal"
+                placeholder="Цена (как у товара)"
+                disabled={disabled}
+              />
+
+              <div className="flex items-center justify-between rounded-md border border-input px-3 h-9">
+                <span className="text-sm text-muted-foreground">
+                  {variant.inStock ? "В наличии" : "Нет"}
+                </span>
+                <Switch
+                  checked={variant.inStock}
+                  onCheckedChange={(checked) => update(variant.key, { inStock: checked })}
+                  disabled={disabled}
+                />
+              </div>
+
+              <Select
+                value={imageExists ? (variant.imageKey as string) : NO_IMAGE_VALUE}
+                onValueChange={(v) => update(variant.key, { imageKey: v === NO_IMAGE_VALUE ? null : v })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Без фото" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_IMAGE_VALUE}>Без фото</SelectItem>
+                  {images.map((img, imgIndex) => (
+                    <SelectItem key={img.key} value={img.key}>
+                      <span className="flex items-center gap-2">
+                        {img.previewUrl ? (
+                          <img src={img.previewUrl} alt="" className="h-6 w-6 rounded object-cover" />
+                        ) : null}
+                        Фото {imgIndex + 1}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        );
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        disabled={disabled}
+        onClick={() =>
+          onChange((prev) => [
+            ...prev,
+            { key: newVariantKey(), id: null, name: "", price: "", inStock: true, imageKey: null },
+          ])
+        }
+      >
+        <Plus className="h-4 w-4" />
+        Добавить вариант
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Reply, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/lib/supabaseClient";
+import { ADMIN_ROLE_LABELS, isAdminRole } from "@/lib/adminRoles";
+import { formatDateTime, getDbErrorMessage, isFollowUpOverdue, toFiniteNumber } from "@/lib/adminUtils";
+import { useAdminRole, useAuthSession } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+const UNASSIGNED_VALUE = "__unassigned__";
+/** Replies deeper than this are drawn at the same indent, the thread stays readable on phones. */
+const MAX_INDENT_DEPTH = 3;
+
+export type RequestFollowUp = {
+  assignee_id: string | null;
+  /** `YYYY-MM-DD` */
+  follow_up_on: string | null;
+};
+
+type RequestNote = {
+  id: number;
+  parent_id: number | null;
+  author_id: string | null;
+  author_email: string | null;
+  body: string;
+  created_at: string;
+};
+
+type StaffMember = { user_id: string; email: string; role: string };
+
+/** Possible assignees: owners and managers, the roles that handle requests (see list_admin_staff). */
+export function useAdminStaff() {
+  return useQuery({
+    queryKey: ["adminStaff"],
+    staleTime: 5 * 60_000,
+    queryFn: async (): Promise<StaffMember[]> => {
+      const { data, error } = await supabase.rpc("list_admin_staff");
+      if (error) throw error;
+      return (data ?? []) as StaffMember[];
+    },
+  });
+}
+
+function NoteComposer({
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const submit = async () => {
+    if (!body.trim()) return;
+    setSaving(true);
+    const ok = await onSubmit(body.trim());
+    setSaving(false);
+    if (ok) setBody("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) submit();
+        }}
+        placeholder={placeholder}
+        rows={2}
+        maxLength={2000}
+      />
+      <div className="flex gap-2 justify-end">
+        {onCancel ? (
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={saving}>
+            Отмена
+          </Button>
+        ) : null}
+        <Button size="sm" onClick={submit} disabled={saving || !body.trim()} className="gap-2">
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/** Assignee, call-back date and internal notes in the request details dialog. */
+export function RequestFollowUpPanel({
+  requestId,
+  status,
+  followUp,
+  onUpdated,
+}: {
+  requestId: number;
+  status: string | null;
+  followUp: RequestFollowUp;
+  onUpdated: (patch: Partial<RequestFollowUp>) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuthSession();
+  // Matches the `request_notes delete` policy: authors delete their own notes, owners any note
+  const isOwner = useAdminRole(user?.id ?? null).data === "owner";
+  const staffQuery = useAdminStaff();
+  const [saving, setSaving] = useState(false);
+  const [replyTo, setReplyTo] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+
+  const notesQuery = useQuery({
+    queryKey: ["requestNotes", requestId],
+    staleTime: 0,
+    queryFn: async (): Promise<RequestNote[]> => {
+      const { data, error } = await supabase
+        .from("request_notes")
+        .select("id,parent_id,author_id,author_email,body,created_at")
+        .eq("request_id", requestId)
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return ((data ?? []) as Array<Record<string, unknown>>).map((row) => ({
+        id: toFiniteNumber(row.id),
+        parent_id: row.parent_id === null ? null : toFiniteNumber(row.parent_id),
+        author_id: typeof row.author_id === "string" ? row.author_id : null,
+        author_email: typeof row.author_email === "string" ? row.author_email : null,
+        body: String(row.body),
+        created_at: String(row.created_at),
+      }));
+    },
+  });
+
+  const saveFollowUp = async (patch: Partial<RequestFollowUp>) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("requests").update(patch).eq("id", requestId);
+      if (error) throw error;
+      onUpdated(patch);
+      queryClient.invalidateQueries({ queryKey: ["adminRequests"] });
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось сохранить"),
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addNote = async (body: string, parentId: number | null) => {
+    try {
+      const { error } = await supabase
+        .from("request_notes")
+        .insert({ request_id: requestId, parent_id: parentId, body });
+      if (error) throw error;
+      await queryClient.invalidateQueries({ queryKey: ["requestNotes", requestId] });
+      setReplyTo(null);
+      return true;
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось добавить заметку"),
+      });
+      return false;
+    }
+  };
+
+  const deleteNote = async (id: number) => {
+    setDeletingId(id);
+    try {
+      const { error } = await supabase.from("request_notes").delete().eq("id", id);
+      if (error) throw error;
+      await queryClient.invalidateQueries({ queryKey: ["requestNotes", requestId] });
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось удалить заметку"),
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const notes = notesQuery.data ?? [];
+  const childrenOf = (parentId: number | null) => notes.filter((n) => n.parent_id === parentId);
+
+  const renderThread = (parentId: number | null, depth: number) =>
+    childrenOf(parentId).map((note) => (
+      <li key={note.id} className={cn(depth > 0 && depth <= MAX_INDENT_DEPTH && "ml-4 pl-3 border-l border-border")}>
+        <div className="py-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-muted-foreground">
+              {note.author_email ?? "—"} · {formatDateTime(note.created_at)}
+            </span>
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2"
+                onClick={() => setReplyTo(replyTo === note.id ? null : note.id)}
+                aria-label="Ответить"
+              >
+                <Reply className="h-3.5 w-3.5" />
+              </Button>
+              {isOwner || note.author_id === user?.id ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => deleteNote(note.id)}
+                  disabled={deletingId === note.id}
+                  aria-label="Удалить заметку"
+                >
+                  {deletingId === note.id ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-3.5 w-3.5" />
+                  )}
+                </Button>
+              ) : null}
+            </div>
+          </div>
+          <div className="text-sm whitespace-pre-wrap">{note.body}</div>
+          {replyTo === note.id ? (
+            <div className="mt-2">
+              <NoteComposer
+                placeholder="Ответ"
+                submitLabel="Ответить"
+                onSubmit={(body) => addNote(body, note.id)}
+                onCancel={() => setReplyTo(null)}
+              />
+            </div>
+          ) : null}
+        </div>
+        <ul>{renderThread(note.id, depth + 1)}</ul>
+      </li>
+    ));
+
+  const overdue = isFollowUpOverdue(followUp.follow_up_on, status);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="text-xs uppercase tracking-widest text-muted-foreground">Ответственный</label>
+          <Select
+            value={followUp.assignee_id ?? UNASSIGNED_VALUE}
+            onValueChange={(v) => saveFollowUp({ assignee_id: v === UNASSIGNED_VALUE ? null : v })}
+          >
+            <SelectTrigger disabled={saving || staffQuery.isLoading}>
+              <SelectValue placeholder="Не назначен" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED_VALUE}>Не назначен</SelectItem>
+              {(staffQuery.data ?? []).map((member) => (
+                <SelectItem key={member.user_id} value={member.user_id}>
+                  {member.email}
+                  {isAdminRole(member.role) ? ` · ${ADMIN_ROLE_LABELS[member.role]}` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs uppercase tracking-widest text-muted-foreground">Перезвонить</label>
+          <div className="flex gap-2">
+            <Input
+              type="date"
+              value={followUp.follow_up_on ?? ""}
+              onChange={(e) => saveFollowUp({ follow_up_on: e.target.value || null })}
+              disabled={saving}
+              className={cn(overdue && "border-destructive text-destructive")}
+            />
+            {followUp.follow_up_on ? (
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => saveFollowUp({ follow_up_on: null })}
+                disabled={saving}
+                aria-label="Убрать дату"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            ) : null}
+          </div>
+          {overdue ? <div className="text-xs text-destructive">Срок звонка прошёл</div> : null}
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-border p-4 space-y-3">
+        <div className="text-xs uppercase tracking-widest text-muted-foreground">Внутренние заметки</div>
+        {notesQuery.isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : notesQuery.isError ? (
+          <div className="text-sm text-muted-foreground">Не удалось загрузить заметки.</div>
+        ) : notes.length ? (
+          <ul className="divide-y divide-border">{renderThread(null, 0)}</ul>
+        ) : (
+          <div className="text-sm text-muted-foreground">Заметок пока нет. Клиент их не видит.</div>
+        )}
+        <NoteComposer placeholder="Новая заметка" submitLabel="Добавить" onSubmit={(body) => addNote(body, null)} />
+      </div>
+    </div>
+  );
+}
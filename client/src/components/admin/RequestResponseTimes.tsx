@@ -0,0 +1,94 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/lib/supabaseClient";
+import { formatDuration, getStatusLabel, toNullableFiniteNumber } from "@/lib/adminUtils";
+
+type ResponseTimes = {
+  firstResponseCount: number;
+  firstResponseMedian: number | null;
+  firstResponseP90: number | null;
+  doneCount: number;
+  doneMedian: number | null;
+  doneP90: number | null;
+};
+
+function monthRange(month: string) {
+  const [y, m] = month.split("-").map((s) => Number(s));
+  return { from: new Date(y, m - 1, 1).toISOString(), to: new Date(y, m, 1).toISOString() };
+}
+
+function useResponseTimes(month: string | null) {
+  return useQuery({
+    queryKey: ["adminResponseTimes", month],
+    staleTime: 0,
+    queryFn: async (): Promise<ResponseTimes> => {
+      const range = month ? monthRange(month) : null;
+      const { data, error } = await supabase
+        .rpc("request_response_times", { p_from: range?.from ?? null, p_to: range?.to ?? null })
+        .single();
+      if (error) throw error;
+
+      const row = (data ?? {}) as Record<string, unknown>;
+      return {
+        firstResponseCount: toNullableFiniteNumber(row.first_response_count) ?? 0,
+        firstResponseMedian: toNullableFiniteNumber(row.first_response_median),
+        firstResponseP90: toNullableFiniteNumber(row.first_response_p90),
+        doneCount: toNullableFiniteNumber(row.done_count) ?? 0,
+        doneMedian: toNullableFiniteNumber(row.done_median),
+        doneP90: toNullableFiniteNumber(row.done_p90),
+      };
+    },
+  });
+}
+
+function MetricsCard({ title, month }: { title: string; month: string | null }) {
+  const query = useResponseTimes(month);
+  const data = query.data;
+
+  return (
+    <div className="p-4 rounded-md border border-border bg-background">
+      <div className="text-xs text-muted-foreground">{title}</div>
+      {query.isLoading ? (
+        <div className="mt-2">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : query.isError || !data ? (
+        <div className="mt-2 text-sm text-muted-foreground">Не удалось посчитать.</div>
+      ) : (
+        <div className="mt-2 space-y-3">
+          <div>
+            <div className="text-sm text-muted-foreground">Первая реакция ({data.firstResponseCount})</div>
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm">медиана <span className="font-medium">{formatDuration(data.firstResponseMedian)}</span></span>
+              <span className="text-sm">p90 <span className="font-medium">{formatDuration(data.firstResponseP90)}</span></span>
+            </div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">До выполнения ({data.doneCount})</div>
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm">медиана <span className="font-medium">{formatDuration(data.doneMedian)}</span></span>
+              <span className="text-sm">p90 <span className="font-medium">{formatDuration(data.doneP90)}</span></span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Time to first response and to "done", all time and for the month picked on the stats tab. */
+export function RequestResponseTimes({ month }: { month: string }) {
+  return (
+    <div className="mt-4">
+      <h4 className="text-sm font-semibold">Скорость обработки</h4>
+      <p className="text-xs text-muted-foreground">
+        От создания заявки до первой смены статуса сотрудником и до статуса «{getStatusLabel("done")}». В скобках —
+        число заявок в расчёте.
+      </p>
+      <div className="mt-3 grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <MetricsCard title="За всё время" month={null} />
+        <MetricsCard title={`За ${month}`} month={month || null} />
+      </div>
+    </div>
+  );
+}
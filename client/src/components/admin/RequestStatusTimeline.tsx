@@ -0,0 +1,80 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/lib/supabaseClient";
+import { formatDateTime, getStatusLabel, toFiniteNumber } from "@/lib/adminUtils";
+
+type StatusHistoryEntry = {
+  id: number;
+  from_status: string | null;
+  to_status: string | null;
+  actor_email: string | null;
+  actor_id: string | null;
+  created_at: string;
+};
+
+/** Status transitions of one request, oldest first. */
+export function RequestStatusTimeline({ requestId, createdAt }: { requestId: number; createdAt: string | null }) {
+  const historyQuery = useQuery({
+    queryKey: ["requestStatusHistory", requestId],
+    staleTime: 0,
+    queryFn: async (): Promise<StatusHistoryEntry[]> => {
+      const { data, error } = await supabase
+        .from("request_status_history")
+        .select("id,from_status,to_status,actor_id,actor_email,created_at")
+        .eq("request_id", requestId)
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return ((data ?? []) as Array<Record<string, unknown>>).map((row) => ({
+        id: toFiniteNumber(row.id),
+        from_status: typeof row.from_status === "string" ? row.from_status : null,
+        to_status: typeof row.to_status === "string" ? row.to_status : null,
+        actor_id: typeof row.actor_id === "string" ? row.actor_id : null,
+        actor_email: typeof row.actor_email === "string" ? row.actor_email : null,
+        created_at: String(row.created_at),
+      }));
+    },
+  });
+
+  const entries = historyQuery.data ?? [];
+  // Requests older than the history table have no creation entry
+  const hasCreation = entries.some((e) => e.from_status === null && e.actor_id === null);
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-3">
+      <div className="text-xs uppercase tracking-widest text-muted-foreground">История статусов</div>
+      {historyQuery.isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : historyQuery.isError ? (
+        <div className="text-sm text-muted-foreground">Не удалось загрузить историю.</div>
+      ) : (
+        <ol className="relative border-l border-border ml-1.5 space-y-3">
+          {!hasCreation ? (
+            <li className="pl-4">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-muted" />
+              <div className="text-sm">Заявка создана</div>
+              <div className="text-xs text-muted-foreground">
+                {formatDateTime(createdAt)} · ранние изменения статуса не сохранялись
+              </div>
+            </li>
+          ) : null}
+          {entries.map((entry) => {
+            const isCreation = entry.from_status === null && entry.actor_id === null;
+            return (
+              <li key={entry.id} className="pl-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary/70" />
+                <div className="text-sm">
+                  {isCreation
+                    ? "Заявка создана"
+                    : `${getStatusLabel(entry.from_status)} → ${getStatusLabel(entry.to_status)}`}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDateTime(entry.created_at)} · {isCreation ? "клиент" : entry.actor_email ?? "сотрудник"}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { formatDistanceToNowStrict } from "date-fns";
+import { ru } from "date-fns/locale";
+import { ImageIcon, Loader2 } from "lucide-react";
+import { SPAM_STATUS, STATUS_LABELS, formatDateTime } from "@/lib/adminUtils";
+import { formatPhone } from "@/lib/phone";
+import { cn } from "@/lib/utils";
+
+/** Fields of an admin request row that the board needs. */
+export type BoardRequest = {
+  id: number;
+  client_name: string | null;
+  client_phone: string | null;
+  product_id: number | null;
+  status: string | null;
+  created_at: string | null;
+  items: Array<{ product_name: string; quantity: number }>;
+};
+
+const DRAG_MIME = "application/x-request-id";
+
+function formatRequestAge(createdAt: string | null) {
+  if (!createdAt) return "—";
+  const date = new Date(createdAt);
+  if (Number.isNaN(date.getTime())) return "—";
+  return formatDistanceToNowStrict(date, { locale: ru, addSuffix: true });
+}
+
+/**
+ * Board view of the requests page: one column per status, cards are dragged between columns.
+ * Requests without a status are shown in the first column until they are moved. Spam is not a
+ * stage of the work: its column only appears for the spam list, where requests are taken back.
+ */
+export function RequestsBoard<T extends BoardRequest>({
+  requests,
+  productsMap,
+  updating,
+  onStatusChange,
+  onOpen,
+}: {
+  requests: T[];
+  productsMap: Map<number, { name: string; image: string | null }> | undefined;
+  updating: Record<number, boolean>;
+  onStatusChange: (id: number, status: string) => void;
+  onOpen: (request: T) => void;
+}) {
+  const showSpam = requests.some((r) => r.status === SPAM_STATUS);
+  const statuses = Object.keys(STATUS_LABELS).filter((s) => showSpam || s !== SPAM_STATUS);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const byStatus = new Map<string, T[]>(statuses.map((s) => [s, []]));
+  requests.forEach((r) => {
+    const column = r.status && byStatus.has(r.status) ? r.status : statuses[0];
+    byStatus.get(column)?.push(r);
+  });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-flow-col md:auto-cols-fr gap-4 p-4">
+      {statuses.map((status) => {
+        const cards = byStatus.get(status) ?? [];
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes(DRAG_MIME)) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = "move";
+              setDropTarget(status);
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDropTarget(null);
+              const id = Number(e.dataTransfer.getData(DRAG_MIME));
+              const request = requests.find((r) => r.id === id);
+              if (request && request.status !== status) onStatusChange(id, status);
+            }}
+            className={cn(
+              "rounded-lg border border-border bg-background/40 p-3 min-h-[200px] transition-colors",
+              dropTarget === status && "border-primary bg-primary/5",
+            )}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <span className="font-medium text-sm">{STATUS_LABELS[status]}</span>
+              <span className="text-xs text-muted-foreground">{cards.length}</span>
+            </div>
+
+            <div className="space-y-2">
+              {cards.map((r) => {
+                const product = r.product_id ? productsMap?.get(r.product_id) : undefined;
+                const productName = r.items[0]?.product_name ?? product?.name ?? "—";
+                const isUpdating = !!updating[r.id];
+                return (
+                  <div
+                    key={r.id}
+                    draggable={!isUpdating}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData(DRAG_MIME, String(r.id));
+                      e.dataTransfer.effectAllowed = "move";
+                    }}
+                    onClick={() => onOpen(r)}
+                    className={cn(
+                      "flex gap-3 rounded-md border border-border bg-card p-2 cursor-grab active:cursor-grabbing",
+                      isUpdating && "opacity-60",
+                    )}
+                  >
+                    <div className="h-14 w-14 shrink-0 overflow-hidden rounded bg-muted flex items-center justify-center">
+                      {product?.image ? (
+                        <img src={product.image} alt="" className="h-full w-full object-cover" draggable={false} />
+                      ) : (
+                        <ImageIcon className="h-5 w-5 text-muted-foreground" />
+                      )}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium truncate">{r.client_name ?? "—"}</span>
+                        {isUpdating ? <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" /> : null}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">{formatPhone(r.client_phone)}</div>
+                      <div className="text-xs truncate">
+                        {productName}
+                        {r.items.length > 1 ? ` и ещё ${r.items.length - 1}` : ""}
+                      </div>
+                      <div className="text-xs text-muted-foreground" title={formatDateTime(r.created_at)}>
+                        {formatRequestAge(r.created_at)}
+                        {r.status ? "" : " · без статуса"}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
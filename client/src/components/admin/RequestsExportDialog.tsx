@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NO_STATUS_VALUE, exportRequestsCsv } from "@/lib/requestsExport";
+import { SPAM_STATUS, STATUS_LABELS, getDbErrorMessage, toDateInputValue } from "@/lib/adminUtils";
+import { useToast } from "@/hooks/use-toast";
+
+const STATUS_OPTIONS = [
+  ...Object.entries(STATUS_LABELS).map(([value, label]) => ({ value, label })),
+  { value: NO_STATUS_VALUE, label: "Без статуса" },
+];
+
+/** CSV export of requests for a date range and a set of statuses (weekly lead reports). */
+export function RequestsExportDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [from, setFrom] = useState(() => {
+    const weekAgo = new Date();
+    weekAgo.setDate(weekAgo.getDate() - 6);
+    return toDateInputValue(weekAgo);
+  });
+  const [to, setTo] = useState(() => toDateInputValue(new Date()));
+  // Spam only when asked for, like in the stats
+  const [statuses, setStatuses] = useState<string[]>(() =>
+    STATUS_OPTIONS.map((o) => o.value).filter((value) => value !== SPAM_STATUS),
+  );
+  const [exporting, setExporting] = useState(false);
+
+  const toggleStatus = (value: string, checked: boolean) =>
+    setStatuses((prev) => (checked ? [...prev, value] : prev.filter((s) => s !== value)));
+
+  const submit = async () => {
+    if (!from || !to || from > to) {
+      toast({ title: "Укажите корректный период" });
+      return;
+    }
+    if (!statuses.length) {
+      toast({ title: "Выберите хотя бы один статус" });
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const count = await exportRequestsCsv({ from, to, statuses });
+      toast({ title: count ? `Выгружено заявок: ${count}` : "За период заявок нет — файл пустой" });
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось выгрузить заявки"),
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !exporting && onOpenChange(next)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Экспорт заявок</DialogTitle>
+          <DialogDescription>CSV с товарами, категориями, контактами клиента и датой заявки.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="requests-export-from">С</Label>
+            <Input id="requests-export-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="requests-export-to">По</Label>
+            <Input id="requests-export-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Статусы</div>
+          {STATUS_OPTIONS.map((option) => (
+            <div key={option.value} className="flex items-center gap-2">
+              <Checkbox
+                id={`requests-export-status-${option.value}`}
+                checked={statuses.includes(option.value)}
+                onCheckedChange={(checked) => toggleStatus(option.value, checked === true)}
+              />
+              <Label htmlFor={`requests-export-status-${option.value}`} className="font-normal">
+                {option.label}
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={exporting}>
+            Отмена
+          </Button>
+          <Button onClick={submit} disabled={exporting} className="gap-2">
+            {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+            Скачать CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
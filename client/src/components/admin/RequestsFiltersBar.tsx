@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/lib/supabaseClient";
+import { STATUS_LABELS, toFiniteNumber, toNullableFiniteNumber } from "@/lib/adminUtils";
+import { getPhoneDigits } from "@/lib/phone";
+
+const ALL_VALUE = "__all__";
+/** Status filter value for requests that have no status. */
+export const EMPTY_STATUS_FILTER = "__empty__";
+
+export type RequestsFilters = {
+  /** STATUS_LABELS key, EMPTY_STATUS_FILTER or null for any. */
+  status: string | null;
+  categoryId: number | null;
+  productId: number | null;
+  /** Inclusive local dates, `YYYY-MM-DD`. */
+  from: string;
+  to: string;
+  /** Client name or phone fragment. */
+  search: string;
+  /** Only requests whose call-back date has passed and that are not done. */
+  overdue: boolean;
+};
+
+export const EMPTY_REQUESTS_FILTERS: RequestsFilters = {
+  status: null,
+  categoryId: null,
+  productId: null,
+  from: "",
+  to: "",
+  search: "",
+  overdue: false,
+};
+
+export function hasRequestsFilters(filters: RequestsFilters) {
+  return JSON.stringify(filters) !== JSON.stringify(EMPTY_REQUESTS_FILTERS);
+}
+
+/**
+ * PostgREST `or=(...)` filter for the search box: name or phone as typed, and the digits
+ * against the normalized phone so `92 123 45 67` finds `+992921234567`.
+ */
+export function toRequestsSearchFilter(search: string): string | null {
+  // Characters with a meaning in the filter syntax (separators, quoting, wildcards) are dropped
+  const cleaned = search.replace(/[,()*%\\"]/g, " ").trim();
+  if (!cleaned) return null;
+  const conditions = [`client_name.ilike.%${cleaned}%`, `client_phone.ilike.%${cleaned}%`];
+  const digits = getPhoneDigits(cleaned);
+  if (digits.length >= 3) conditions.push(`client_phone_e164.like.%${digits}%`);
+  return conditions.join(",");
+}
+
+export function RequestsFiltersBar({
+  filters,
+  onChange,
+  categories,
+}: {
+  filters: RequestsFilters;
+  onChange: (filters: RequestsFilters) => void;
+  categories: Array<{ id: number; name: string }>;
+}) {
+  const [searchDraft, setSearchDraft] = useState(filters.search);
+
+  useEffect(() => setSearchDraft(filters.search), [filters.search]);
+
+  // Trashed products stay selectable: old requests still point at them
+  const productOptionsQuery = useQuery({
+    queryKey: ["adminRequestProductOptions"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id,name,category_id")
+        .order("name", { ascending: true });
+      if (error) throw error;
+      return ((data ?? []) as Array<{ id: unknown; name: string; category_id: unknown }>).map((p) => ({
+        id: toFiniteNumber(p.id),
+        name: p.name,
+        category_id: toNullableFiniteNumber(p.category_id),
+      }));
+    },
+  });
+
+  const productOptions = (productOptionsQuery.data ?? []).filter(
+    (p) => filters.categoryId === null || p.category_id === filters.categoryId,
+  );
+
+  const applySearch = () => {
+    if (searchDraft !== filters.search) onChange({ ...filters, search: searchDraft });
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3">
+        <Input
+          value={searchDraft}
+          onChange={(e) => setSearchDraft(e.target.value)}
+          onBlur={applySearch}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") applySearch();
+          }}
+          placeholder="Имя или телефон"
+          className="lg:col-span-2"
+        />
+
+        <Select
+          value={filters.status ?? ALL_VALUE}
+          onValueChange={(v) => onChange({ ...filters, status: v === ALL_VALUE ? null : v })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Статус" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_VALUE}>Все, кроме спама</SelectItem>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+            <SelectItem value={EMPTY_STATUS_FILTER}>Без статуса</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.categoryId === null ? ALL_VALUE : String(filters.categoryId)}
+          onValueChange={(v) => {
+            const categoryId = v === ALL_VALUE ? null : Number(v);
+            const product = productOptionsQuery.data?.find((p) => p.id === filters.productId);
+            // A product from another category would make the result always empty
+            const keepProduct = !!product && (categoryId === null || product.category_id === categoryId);
+            onChange({ ...filters, categoryId, productId: keepProduct ? filters.productId : null });
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Категория" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_VALUE}>Все категории</SelectItem>
+            {categories.map((c) => (
+              <SelectItem key={c.id} value={String(c.id)}>{c.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.productId === null ? ALL_VALUE : String(filters.productId)}
+          onValueChange={(v) => onChange({ ...filters, productId: v === ALL_VALUE ? null : Number(v) })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Товар" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_VALUE}>Все товары</SelectItem>
+            {productOptions.map((p) => (
+              <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="date"
+            value={filters.from}
+            onChange={(e) => onChange({ ...filters, from: e.target.value })}
+            aria-label="С даты"
+          />
+          <Input
+            type="date"
+            value={filters.to}
+            onChange={(e) => onChange({ ...filters, to: e.target.value })}
+            aria-label="По дату"
+          />
+        </div>
+      </div>
+
+      <div className="mt-3 flex items-center gap-2">
+        <Switch
+          id="requests-overdue-filter"
+          checked={filters.overdue}
+          onCheckedChange={(overdue) => onChange({ ...filters, overdue })}
+        />
+        <Label htmlFor="requests-overdue-filter" className="font-normal">
+          Просроченные звонки
+        </Label>
+      </div>
+
+      {hasRequestsFilters(filters) ? (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2 h-auto px-0 py-0 underline underline-offset-4"
+          onClick={() => onChange(EMPTY_REQUESTS_FILTERS)}
+        >
+          Сбросить фильтры
+        </Button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { keepPreviousData, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/lib/supabaseClient";
+import { formatDateTime, getDbErrorMessage, toFiniteNumber } from "@/lib/adminUtils";
+import { formatPhone, getPhoneDigits } from "@/lib/phone";
+import { exportSubscribersCsv } from "@/lib/subscribersExport";
+import { useToast } from "@/hooks/use-toast";
+
+const PAGE_SIZE = 20;
+
+const SOURCE_LABELS: Record<string, string> = {
+  home: "Главная страница",
+};
+
+type SubscriberState = "active" | "unsubscribed" | "all";
+
+type Subscriber = {
+  id: number;
+  phone: string;
+  source: string;
+  consented_at: string;
+  unsubscribed_at: string | null;
+};
+
+/**
+ * "Подписчики" tab: phones from the newsletter form. Staff can unsubscribe a number on the
+ * customer's request; subscribing again takes a new consent through the form.
+ */
+export function SubscribersTab() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [searchDraft, setSearchDraft] = useState("");
+  const [state, setState] = useState<SubscriberState>("active");
+  const [page, setPage] = useState(1);
+  const [exporting, setExporting] = useState(false);
+  const [unsubscribing, setUnsubscribing] = useState<Record<number, boolean>>({});
+
+  useEffect(() => setPage(1), [search, state]);
+
+  const subscribersQuery = useQuery({
+    queryKey: ["adminSubscribers", search, state, page],
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+    queryFn: async () => {
+      const from = (page - 1) * PAGE_SIZE;
+      const to = from + PAGE_SIZE - 1;
+      const digits = getPhoneDigits(search);
+
+      let query = supabase
+        .from("newsletter_subscribers")
+        .select("id,phone,source,consented_at,unsubscribed_at", { count: "exact" })
+        .order("consented_at", { ascending: false })
+        .range(from, to);
+      if (state === "active") query = query.is("unsubscribed_at", null);
+      else if (state === "unsubscribed") query = query.not("unsubscribed_at", "is", null);
+      if (digits) query = query.like("phone", `%${digits}%`);
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+
+      return {
+        items: ((data ?? []) as Array<Record<string, unknown>>).map(
+          (row): Subscriber => ({
+            id: toFiniteNumber(row.id),
+            phone: String(row.phone),
+            source: String(row.source),
+            consented_at: String(row.consented_at),
+            unsubscribed_at: typeof row.unsubscribed_at === "string" ? row.unsubscribed_at : null,
+          }),
+        ),
+        total: count ?? 0,
+        totalPages: Math.max(1, Math.ceil((count ?? 0) / PAGE_SIZE)),
+      };
+    },
+  });
+
+  const unsubscribe = async (subscriber: Subscriber) => {
+    setUnsubscribing((prev) => ({ ...prev, [subscriber.id]: true }));
+    try {
+      const { error } = await supabase
+        .from("newsletter_subscribers")
+        .update({ unsubscribed_at: new Date().toISOString() })
+        .eq("id", subscriber.id);
+      if (error) throw error;
+      toast({ title: "Номер отписан", description: formatPhone(subscriber.phone) });
+      queryClient.invalidateQueries({ queryKey: ["adminSubscribers"] });
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось отписать номер"),
+      });
+    } finally {
+      setUnsubscribing((prev) => ({ ...prev, [subscriber.id]: false }));
+    }
+  };
+
+  const runExport = async () => {
+    setExporting(true);
+    try {
+      const count = await exportSubscribersCsv({ includeUnsubscribed: state !== "active" });
+      toast({ title: "Экспорт готов", description: `Номеров: ${count}` });
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось выгрузить подписчиков"),
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const totalPages = subscribersQuery.data?.totalPages ?? 1;
+  const items = subscribersQuery.data?.items ?? [];
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="font-serif text-2xl">Подписчики</h2>
+          <p className="text-sm text-muted-foreground">
+            Номера из формы «Оставьте свой контакт».
+            {subscribersQuery.data ? ` Найдено: ${subscribersQuery.data.total}.` : ""}
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 w-full sm:w-auto">
+          <Input
+            value={searchDraft}
+            onChange={(e) => setSearchDraft(e.target.value)}
+            onBlur={() => setSearch(searchDraft)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") setSearch(searchDraft);
+            }}
+            placeholder="Телефон"
+            className="sm:max-w-[200px]"
+          />
+          <Select value={state} onValueChange={(v) => setState(v as SubscriberState)}>
+            <SelectTrigger className="sm:w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Подписаны</SelectItem>
+              <SelectItem value="unsubscribed">Отписались</SelectItem>
+              <SelectItem value="all">Все</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={runExport} disabled={exporting} className="gap-2 w-full sm:w-auto">
+            {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            {state === "active" ? "Экспорт подписанных" : "Экспорт всех"}
+          </Button>
+        </div>
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 8 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+        className="mt-6 border border-border rounded-lg bg-card/30"
+      >
+        {subscribersQuery.isLoading ? (
+          <div className="p-10 flex items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : subscribersQuery.isError ? (
+          <div className="p-6 text-sm text-muted-foreground">Не удалось загрузить подписчиков.</div>
+        ) : (
+          <>
+            <div className="w-full overflow-x-auto">
+              <Table className="min-w-[640px]">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Телефон</TableHead>
+                    <TableHead>Источник</TableHead>
+                    <TableHead>Согласие</TableHead>
+                    <TableHead>Статус</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-sm text-muted-foreground py-10 text-center">
+                        {search || state !== "active" ? "Ничего не найдено." : "Подписчиков пока нет."}
+                      </TableCell>
+                    </TableRow>
+                  ) : null}
+
+                  {items.map((s) => (
+                    <TableRow key={s.id}>
+                      <TableCell className="font-medium">{formatPhone(s.phone)}</TableCell>
+                      <TableCell className="text-muted-foreground text-sm">{SOURCE_LABELS[s.source] ?? s.source}</TableCell>
+                      <TableCell className="text-muted-foreground text-sm">{formatDateTime(s.consented_at)}</TableCell>
+                      <TableCell className="text-sm">
+                        {s.unsubscribed_at ? (
+                          <span className="text-muted-foreground">Отписан {formatDateTime(s.unsubscribed_at)}</span>
+                        ) : (
+                          "Подписан"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!s.unsubscribed_at ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={!!unsubscribing[s.id]}
+                            onClick={() => unsubscribe(s)}
+                          >
+                            {unsubscribing[s.id] ? <Loader2 className="h-4 w-4 animate-spin" /> : "Отписать"}
+                          </Button>
+                        ) : null}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {totalPages > 1 ? (
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 border-t border-border">
+                <span className="text-xs text-muted-foreground">Страница {page} из {totalPages}</span>
+                <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                    disabled={subscribersQuery.isFetching || page <= 1}
+                    className="w-full sm:w-auto"
+                  >
+                    Назад
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                    disabled={subscribersQuery.isFetching || page >= totalPages}
+                    className="w-full sm:w-auto"
+                  >
+                    Вперед
+                  </Button>
+                </div>
+              </div>
+            ) : null}
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/lib/supabaseClient";
+import { purgeProducts } from "@/lib/productImages";
+import { formatDateTime, getDbErrorMessage, toFiniteNumber, toNullableFiniteNumber } from "@/lib/adminUtils";
+import { useToast } from "@/hooks/use-toast";
+
+/** Items older than this are purged automatically when an owner opens the trash. */
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TrashItem = {
+  kind: "category" | "product";
+  id: number;
+  name: string;
+  deleted_at: string;
+  /** Products only: their category is in the trash as well. */
+  categoryTrashed?: boolean;
+};
+
+function getDaysLeft(deletedAt: string): number {
+  const expiresAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((expiresAt - Date.now()) / DAY_MS));
+}
+
+function getItemKey(item: TrashItem) {
+  return `${item.kind}-${item.id}`;
+}
+
+/** Trashed categories and products: restore or delete permanently. */
+export function TrashTab() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [purgeAllOpen, setPurgeAllOpen] = useState(false);
+  const autoPurgeDone = useRef(false);
+
+  const trashQuery = useQuery({
+    queryKey: ["adminTrash"],
+    staleTime: 0,
+    queryFn: async (): Promise<TrashItem[]> => {
+      const [categoriesRes, productsRes] = await Promise.all([
+        supabase
+          .from("categories")
+          .select("id,name,deleted_at")
+          .not("deleted_at", "is", null)
+          .order("deleted_at", { ascending: false }),
+        supabase
+          .from("products")
+          .select("id,name,deleted_at,category_id,categories(deleted_at)")
+          .not("deleted_at", "is", null)
+          .order("deleted_at", { ascending: false }),
+      ]);
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (productsRes.error) throw productsRes.error;
+
+      const categories = ((categoriesRes.data ?? []) as Array<{ id: unknown; name: string; deleted_at: string }>).map(
+        (row): TrashItem => ({ kind: "category", id: toFiniteNumber(row.id), name: row.name, deleted_at: row.deleted_at }),
+      );
+      const products = (
+        (productsRes.data ?? []) as unknown as Array<{
+          id: unknown;
+          name: string;
+          deleted_at: string;
+          category_id: unknown;
+          categories: { deleted_at: string | null } | null;
+        }>
+      ).map(
+        (row): TrashItem => ({
+          kind: "product",
+          id: toFiniteNumber(row.id),
+          name: row.name,
+          deleted_at: row.deleted_at,
+          categoryTrashed: toNullableFiniteNumber(row.category_id) !== null && !!row.categories?.deleted_at,
+        }),
+      );
+
+      return [...categories, ...products].sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+    },
+  });
+
+  const invalidateCatalog = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["adminTrash"] }),
+      queryClient.invalidateQueries({ queryKey: ["adminCategories"] }),
+      queryClient.invalidateQueries({ queryKey: ["adminProducts"] }),
+      queryClient.invalidateQueries({ queryKey: ["categories"] }),
+      queryClient.invalidateQueries({ queryKey: ["products"] }),
+      queryClient.invalidateQueries({ queryKey: ["product"] }),
+      queryClient.invalidateQueries({ queryKey: ["productsByCategory"] }),
+      queryClient.invalidateQueries({ queryKey: ["adminAudit"] }),
+    ]);
+
+  // Products first so their files are cleaned up; categories are plain rows.
+  const purge = async (items: TrashItem[]) => {
+    const productIds = items.filter((i) => i.kind === "product").map((i) => i.id);
+    const categoryIds = items.filter((i) => i.kind === "category").map((i) => i.id);
+
+    const storageError = await purgeProducts(productIds);
+    if (categoryIds.length) {
+      const { error } = await supabase.from("categories").delete().in("id", categoryIds);
+      if (error) throw error;
+    }
+    return storageError;
+  };
+
+  const restore = async (item: TrashItem) => {
+    setBusyKey(getItemKey(item));
+    try {
+      const { error } = await supabase
+        .from(item.kind === "category" ? "categories" : "products")
+        .update({ deleted_at: null })
+        .eq("id", item.id);
+      if (error) throw error;
+      await invalidateCatalog();
+      toast({ title: item.kind === "category" ? "Категория восстановлена" : "Товар восстановлен" });
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось восстановить"),
+      });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const purgeItems = async (items: TrashItem[], key: string) => {
+    setBusyKey(key);
+    try {
+      const storageError = await purge(items);
+      if (storageError) {
+        toast({
+          variant: "destructive",
+          title: "Ошибка",
+          description: getDbErrorMessage(storageError, "Удалено, но не удалось удалить фото из хранилища"),
+        });
+      }
+      await invalidateCatalog();
+      toast({ title: items.length === 1 ? "Удалено навсегда" : `Удалено навсегда: ${items.length}` });
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось удалить"),
+      });
+    } finally {
+      setBusyKey(null);
+      setPurgeAllOpen(false);
+    }
+  };
+
+  // Retention: purge expired items once per visit of the tab
+  useEffect(() => {
+    const items = trashQuery.data;
+    if (!items || autoPurgeDone.current) return;
+    autoPurgeDone.current = true;
+
+    const expired = items.filter((item) => getDaysLeft(item.deleted_at) === 0);
+    if (!expired.length) return;
+
+    purge(expired)
+      .then((storageError) => {
+        if (storageError) {
+          toast({
+            variant: "destructive",
+            title: "Ошибка",
+            description: getDbErrorMessage(storageError, "Старые записи удалены, но не удалось удалить фото из хранилища"),
+          });
+        }
+        return invalidateCatalog();
+      })
+      .then(() => toast({ title: `Корзина очищена от старых записей: ${expired.length}` }))
+      .catch((error: unknown) => {
+        console.error("[trash] retention purge failed", error);
+        toast({
+          variant: "destructive",
+          title: "Ошибка",
+          description: getDbErrorMessage(error, "Не удалось удалить старые записи из корзины"),
+        });
+      });
+  }, [trashQuery.data]);
+
+  const items = trashQuery.data ?? [];
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="font-serif text-2xl">Корзина</h2>
+          <p className="text-sm text-muted-foreground">
+            Удалённые категории и товары хранятся {TRASH_RETENTION_DAYS} дней, затем удаляются навсегда
+            вместе с фото.
+          </p>
+        </div>
+
+        <AlertDialog open={purgeAllOpen} onOpenChange={(open) => busyKey !== "all" && setPurgeAllOpen(open)}>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" className="gap-2 w-full sm:w-auto" disabled={!items.length || !!busyKey}>
+              <Trash2 className="h-4 w-4" />
+              Очистить корзину
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Очистить корзину?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Все объекты в корзине ({items.length}) и их фото будут удалены без возможности восстановления.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={busyKey === "all"}>Отмена</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(e) => {
+                  e.preventDefault();
+                  purgeItems(items, "all");
+                }}
+                disabled={busyKey === "all"}
+                className="gap-2"
+              >
+                {busyKey === "all" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                Удалить навсегда
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 8 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+        className="mt-6 border border-border rounded-lg bg-card/30"
+      >
+        {trashQuery.isLoading ? (
+          <div className="p-10 flex items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : trashQuery.isError ? (
+          <div className="p-6 text-sm text-muted-foreground">Не удалось загрузить корзину.</div>
+        ) : (
+          <div className="w-full overflow-x-auto">
+            <Table className="min-w-[760px]">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Название</TableHead>
+                  <TableHead>Тип</TableHead>
+                  <TableHead>Удалено</TableHead>
+                  <TableHead>Осталось</TableHead>
+                  <TableHead className="w-[260px]">Действия</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-sm text-muted-foreground py-10 text-center">
+                      Корзина пуста.
+                    </TableCell>
+                  </TableRow>
+                ) : null}
+
+                {items.map((item) => {
+                  const key = getItemKey(item);
+                  const busy = busyKey === key;
+                  return (
+                    <TableRow key={key}>
+                      <TableCell className="font-medium">
+                        {item.name}
+                        {item.categoryTrashed ? (
+                          <div className="text-xs text-muted-foreground">Категория тоже в корзине</div>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {item.kind === "category" ? "Категория" : "Товар"}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">{formatDateTime(item.deleted_at)}</TableCell>
+                      <TableCell className="text-muted-foreground text-sm">{getDaysLeft(item.deleted_at)} дн.</TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => restore(item)}
+                            disabled={!!busyKey}
+                          >
+                            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                            Восстановить
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="destructive" size="sm" className="gap-2" disabled={!!busyKey}>
+                                <Trash2 className="h-4 w-4" />
+                                Навсегда
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Удалить навсегда?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  {item.kind === "category"
+                                    ? `Категория «${item.name}» будет удалена. Её товары останутся без категории.`
+                                    : `Товар «${item.name}» и его фото будут удалены без возможности восстановления.`}
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Отмена</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => purgeItems([item], key)} className="gap-2">
+                                  <Trash2 className="h-4 w-4" />
+                                  Удалить навсегда
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -4,14 +4,35 @@ export type Category = {
   slug: string;
 };
 
+export type ProductAttributes = {
+  material?: string | null;
+  dimensions?: string | null;
+  weight?: string | null;
+  color?: string | null;
+  careInstructions?: string | null;
+};
+
+export type ProductVariant = {
+  id: number;
+  name: string;
+  /** Overrides the product price when set. */
+  price?: string | null;
+  inStock: boolean;
+  image?: string | null;
+};
+
 export type Product = {
   id: number;
   name: string;
   description?: string | null;
   price?: string | null;
   image: string;
+  /** Ordered gallery; the first entry is the primary image (same as `image`). */
+  images?: string[];
   categoryId?: number | null;
   inStock?: boolean;
+  attributes?: ProductAttributes;
+  variants?: ProductVariant[];
 };
 
 export const categories: Category[] = [
@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabaseClient";
+import { isAdminRole, type AdminRole } from "@/lib/adminRoles";
+
+/**
+ * Current Supabase Auth session. `loading` stays true until the persisted session
+ * has been restored from storage, so guards don't redirect on the first render.
+ */
+export function useAuthSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+
+    supabase.auth
+      .getSession()
+      .then(({ data, error }) => {
+        if (!active) return;
+        if (error) console.error("[auth] getSession error", error);
+        setSession(data.session ?? null);
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      if (!active) return;
+      setSession(nextSession);
+      setLoading(false);
+    });
+
+    return () => {
+      active = false;
+      data.subscription.unsubscribe();
+    };
+  }, []);
+
+  return { session, user: session?.user ?? null, loading };
+}
+
+/** Role of the signed-in user from `admin_users`; null when the user is not an admin. */
+export function useAdminRole(userId: string | null) {
+  return useQuery({
+    queryKey: ["adminRole", userId],
+    enabled: userId !== null,
+    queryFn: async (): Promise<AdminRole | null> => {
+      const { data, error } = await supabase
+        .from("admin_users")
+        .select("role")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return isAdminRole(data?.role) ? data.role : null;
+    },
+    staleTime: 60_000,
+  });
+}
@@ -0,0 +1,123 @@
+import { useCallback, useMemo } from "react";
+import { useLocation, useParams, useSearch } from "wouter";
+import type { ProductFilters, ProductSort } from "@/hooks/use-products";
+
+type CatalogFilters = Required<ProductFilters>;
+
+type CatalogLocationState = {
+  categorySlug: string | null;
+  page: number;
+  isCatalogOpen: boolean;
+  filters: CatalogFilters;
+};
+
+const PRODUCT_SORTS: ProductSort[] = ["newest", "price_asc", "price_desc", "name"];
+
+const DEFAULT_FILTERS: CatalogFilters = {
+  sort: "newest",
+  minPrice: null,
+  maxPrice: null,
+  inStockOnly: false,
+};
+
+function parsePage(value: string | null): number {
+  if (!value || !/^\d+$/.test(value)) return 1;
+  const page = Number(value);
+  return Number.isSafeInteger(page) && page > 0 ? page : 1;
+}
+
+function parsePrice(value: string | null): number | null {
+  if (!value) return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+}
+
+function parseSort(value: string | null): ProductSort {
+  return PRODUCT_SORTS.includes(value as ProductSort) ? (value as ProductSort) : "newest";
+}
+
+export function buildCatalogHref({
+  categorySlug,
+  page,
+  isCatalogOpen,
+  filters,
+}: CatalogLocationState): string {
+  const path = categorySlug ? `/category/${encodeURIComponent(categorySlug)}` : "/";
+  const params = new URLSearchParams();
+  if (isCatalogOpen) params.set("catalog", "1");
+  if (filters.sort !== "newest") params.set("sort", filters.sort);
+  if (filters.minPrice !== null) params.set("min", String(filters.minPrice));
+  if (filters.maxPrice !== null) params.set("max", String(filters.maxPrice));
+  if (filters.inStockOnly) params.set("stock", "1");
+  if (page > 1) params.set("page", String(page));
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Storefront category / catalog state kept in the URL:
+ * `/category/:slug` selects the category, `?catalog=1` opens the full catalog,
+ * `?page=N` is the catalog page and `sort` / `min` / `max` / `stock` hold the
+ * catalog filters. Every change pushes a history entry so back/forward
+ * navigation restores the previous view.
+ */
+export function useCatalogLocation() {
+  const params = useParams<{ slug?: string }>();
+  const search = useSearch();
+  const [, navigate] = useLocation();
+
+  const state = useMemo((): CatalogLocationState => {
+    const query = new URLSearchParams(search);
+    return {
+      categorySlug: params.slug ? decodeURIComponent(params.slug) : null,
+      page: parsePage(query.get("page")),
+      isCatalogOpen: query.get("catalog") === "1",
+      filters: {
+        sort: parseSort(query.get("sort")),
+        minPrice: parsePrice(query.get("min")),
+        maxPrice: parsePrice(query.get("max")),
+        inStockOnly: query.get("stock") === "1",
+      },
+    };
+  }, [params.slug, search]);
+
+  const update = useCallback(
+    (next: Partial<CatalogLocationState>, options?: { replace?: boolean }) => {
+      navigate(buildCatalogHref({ ...state, ...next }), options);
+    },
+    [navigate, state],
+  );
+
+  const setCategory = useCallback(
+    (slug: string | null) => update({ categorySlug: slug, page: 1 }),
+    [update],
+  );
+
+  const setPage = useCallback(
+    (page: number, options?: { replace?: boolean }) => update({ page }, options),
+    [update],
+  );
+
+  const setCatalogOpen = useCallback(
+    (open: boolean) =>
+      update(
+        open
+          ? { isCatalogOpen: true }
+          : { isCatalogOpen: false, page: 1, filters: DEFAULT_FILTERS },
+      ),
+    [update],
+  );
+
+  const setFilters = useCallback(
+    (next: Partial<CatalogFilters>) =>
+      update({ filters: { ...state.filters, ...next }, page: 1 }),
+    [update, state.filters],
+  );
+
+  const resetFilters = useCallback(
+    () => update({ filters: DEFAULT_FILTERS, page: 1 }),
+    [update],
+  );
+
+  return { ...state, setCategory, setPage, setCatalogOpen, setFilters, resetFilters };
+}
@@ -9,6 +9,7 @@ export function useCategories() {
       const { data, error } = await supabase
         .from("categories")
         .select("id,name,slug")
+        .is("deleted_at", null)
         .order("name", { ascending: true });
 
       if (error) throw error;
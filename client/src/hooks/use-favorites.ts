@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+
+const STORAGE_KEY = "favoriteProducts";
+
+/**
+ * Saved product snapshot. Name and image are kept so the favorites page can still
+ * show what was saved after the product is removed from the catalog.
+ */
+export type FavoriteItem = {
+  id: number;
+  name: string;
+  image: string | null;
+  addedAt: string;
+};
+
+function readStoredFavorites(): FavoriteItem[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(
+        (item): item is FavoriteItem =>
+          item && typeof item === "object" && Number.isFinite(item.id) && typeof item.name === "string",
+      )
+      .map((item) => ({
+        id: item.id,
+        name: item.name,
+        image: typeof item.image === "string" ? item.image : null,
+        addedAt: typeof item.addedAt === "string" ? item.addedAt : new Date(0).toISOString(),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+const listeners: Array<(items: FavoriteItem[]) => void> = [];
+
+let memoryState: FavoriteItem[] = readStoredFavorites();
+
+function setState(next: FavoriteItem[], persist = true) {
+  memoryState = next;
+  if (persist) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // ignore localStorage errors
+    }
+  }
+  listeners.forEach((listener) => listener(memoryState));
+}
+
+// Keep several open tabs in sync
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (e) => {
+    if (e.key !== STORAGE_KEY) return;
+    setState(readStoredFavorites(), false);
+  });
+}
+
+export function toggleFavorite(product: Omit<FavoriteItem, "addedAt">) {
+  if (memoryState.some((item) => item.id === product.id)) {
+    setState(memoryState.filter((item) => item.id !== product.id));
+  } else {
+    // Newest first
+    setState([{ ...product, addedAt: new Date().toISOString() }, ...memoryState]);
+  }
+}
+
+export function removeFavorite(id: number) {
+  setState(memoryState.filter((item) => item.id !== id));
+}
+
+export function useFavorites() {
+  const [items, setItems] = useState(memoryState);
+
+  useEffect(() => {
+    listeners.push(setItems);
+    setItems(memoryState);
+    return () => {
+      const index = listeners.indexOf(setItems);
+      if (index > -1) listeners.splice(index, 1);
+    };
+  }, []);
+
+  return {
+    items,
+    count: items.length,
+    isFavorite: (id: number) => items.some((item) => item.id === id),
+    toggle: toggleFavorite,
+    remove: removeFavorite,
+  };
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+
+export const MAX_INQUIRY_QUANTITY = 99;
+
+const STORAGE_KEY = "inquiryCart";
+
+export type InquiryCartItem = {
+  productId: number;
+  variantId: number | null;
+  name: string;
+  variantName: string | null;
+  image: string | null;
+  /** Display price at the moment the item was added; the request itself stores no prices. */
+  price: string | null;
+  quantity: number;
+};
+
+type InquiryCartState = {
+  items: InquiryCartItem[];
+  open: boolean;
+};
+
+export function getInquiryItemKey(item: Pick<InquiryCartItem, "productId" | "variantId">): string {
+  return `${item.productId}:${item.variantId ?? ""}`;
+}
+
+function clampQuantity(quantity: number): number {
+  if (!Number.isFinite(quantity)) return 1;
+  return Math.min(MAX_INQUIRY_QUANTITY, Math.max(1, Math.round(quantity)));
+}
+
+function readStoredItems(): InquiryCartItem[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(
+        (item): item is InquiryCartItem =>
+          item &&
+          typeof item === "object" &&
+          Number.isFinite(item.productId) &&
+          typeof item.name === "string",
+      )
+      .map((item) => ({
+        productId: item.productId,
+        variantId: Number.isFinite(item.variantId) ? item.variantId : null,
+        name: item.name,
+        variantName: typeof item.variantName === "string" ? item.variantName : null,
+        image: typeof item.image === "string" ? item.image : null,
+        price: typeof item.price === "string" ? item.price : null,
+        quantity: clampQuantity(item.quantity),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+const listeners: Array<(state: InquiryCartState) => void> = [];
+
+let memoryState: InquiryCartState = { items: readStoredItems(), open: false };
+
+function setState(next: InquiryCartState, persist = true) {
+  memoryState = next;
+  if (persist) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next.items));
+    } catch {
+      // ignore localStorage errors
+    }
+  }
+  listeners.forEach((listener) => listener(memoryState));
+}
+
+// Keep several open tabs in sync
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (e) => {
+    if (e.key !== STORAGE_KEY) return;
+    setState({ ...memoryState, items: readStoredItems() }, false);
+  });
+}
+
+export function addToInquiryCart(item: Omit<InquiryCartItem, "quantity">, quantity = 1) {
+  const key = getInquiryItemKey(item);
+  const existing = memoryState.items.find((i) => getInquiryItemKey(i) === key);
+  const items = existing
+    ? memoryState.items.map((i) =>
+        i === existing ? { ...i, ...item, quantity: clampQuantity(i.quantity + quantity) } : i,
+      )
+    : [...memoryState.items, { ...item, quantity: clampQuantity(quantity) }];
+  setState({ ...memoryState, items });
+}
+
+export function setInquiryItemQuantity(key: string, quantity: number) {
+  setState({
+    ...memoryState,
+    items: memoryState.items.map((i) =>
+      getInquiryItemKey(i) === key ? { ...i, quantity: clampQuantity(quantity) } : i,
+    ),
+  });
+}
+
+export function removeFromInquiryCart(key: string) {
+  setState({ ...memoryState, items: memoryState.items.filter((i) => getInquiryItemKey(i) !== key) });
+}
+
+export function clearInquiryCart() {
+  setState({ ...memoryState, items: [] });
+}
+
+export function setInquiryCartOpen(open: boolean) {
+  setState({ ...memoryState, open }, false);
+}
+
+export function useInquiryCart() {
+  const [state, setLocalState] = useState(memoryState);
+
+  useEffect(() => {
+    listeners.push(setLocalState);
+    setLocalState(memoryState);
+    return () => {
+      const index = listeners.indexOf(setLocalState);
+      if (index > -1) listeners.splice(index, 1);
+    };
+  }, []);
+
+  return {
+    items: state.items,
+    open: state.open,
+    count: state.items.reduce((sum, item) => sum + item.quantity, 0),
+    add: addToInquiryCart,
+    setQuantity: setInquiryItemQuantity,
+    remove: removeFromInquiryCart,
+    clear: clearInquiryCart,
+    setOpen: setInquiryCartOpen,
+  };
+}
@@ -1,16 +1,34 @@
-import { useQuery } from "@tanstack/react-query";
-import type { Product } from "@/data/catalog";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import type { Product, ProductVariant } from "@/data/catalog";
 import { supabase } from "@/lib/supabaseClient";
 
 type ProductRow = {
   id: number | string;
   name: string;
+  description?: string | null;
   price: unknown;
   image: string | null;
   category_id: number | string | null;
   in_stock?: boolean | null;
+  material?: string | null;
+  dimensions?: string | null;
+  weight?: string | null;
+  color?: string | null;
+  care_instructions?: string | null;
+  product_images?: Array<{ url: string; position: number }> | null;
+  product_variants?: Array<{
+    id: number | string;
+    name: string;
+    price: unknown;
+    in_stock: boolean | null;
+    image: string | null;
+    position: number;
+  }> | null;
 };
 
+const PRODUCT_COLUMNS =
+  "id,name,description,price,image,category_id,in_stock,material,dimensions,weight,color,care_instructions,product_images(url,position),product_variants(id,name,price,in_stock,image,position)";
+
 export type PagedResult<T> = {
   items: T[];
   total: number;
@@ -19,6 +37,15 @@ export type PagedResult<T> = {
   totalPages: number;
 };
 
+export type ProductSort = "newest" | "price_asc" | "price_desc" | "name";
+
+export type ProductFilters = {
+  sort?: ProductSort;
+  minPrice?: number | null;
+  maxPrice?: number | null;
+  inStockOnly?: boolean;
+};
+
 function formatPrice(price: unknown): string | null {
   if (price === null || price === undefined) return null;
   if (typeof price === "number" && Number.isFinite(price)) return price.toFixed(2);
@@ -26,19 +53,110 @@ function formatPrice(price: unknown): string | null {
   return String(price);
 }
 
+function mapProductImages(row: ProductRow, primary: string): string[] {
+  const images = (row.product_images ?? [])
+    .slice()
+    .sort((a, b) => a.position - b.position)
+    .map((img) => img.url);
+  return images.length ? images : [primary];
+}
+
+function mapProductVariants(row: ProductRow): ProductVariant[] {
+  return (row.product_variants ?? [])
+    .slice()
+    .sort((a, b) => a.position - b.position)
+    .map(
+      (variant): ProductVariant => ({
+        id: Number(variant.id),
+        name: variant.name,
+        price: formatPrice(variant.price),
+        inStock: variant.in_stock ?? true,
+        image: variant.image ?? null,
+      }),
+    );
+}
+
 function mapProductRows(rows: ProductRow[]): Product[] {
   return rows.map(
     (row): Product => ({
       id: Number(row.id),
       name: row.name,
+      description: row.description ?? null,
       price: formatPrice(row.price),
       image: row.image ?? "/images/ceramics.jpg",
+      images: mapProductImages(row, row.image ?? "/images/ceramics.jpg"),
       categoryId: row.category_id === null ? null : Number(row.category_id),
       inStock: row.in_stock ?? true,
+      attributes: {
+        material: row.material ?? null,
+        dimensions: row.dimensions ?? null,
+        weight: row.weight ?? null,
+        color: row.color ?? null,
+        careInstructions: row.care_instructions ?? null,
+      },
+      variants: mapProductVariants(row),
     }),
   );
 }
 
+/** Mirrors `public.search_normalize` in the database: lower-case and fold ё to е. */
+function normalizeSearchQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ");
+}
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+function normalizeFilters(filters: ProductFilters): Required<ProductFilters> {
+  const price = (value: number | null | undefined) =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : null;
+  return {
+    sort: filters.sort ?? "newest",
+    minPrice: price(filters.minPrice),
+    maxPrice: price(filters.maxPrice),
+    inStockOnly: filters.inStockOnly ?? false,
+  };
+}
+
+// Filters and ordering go into the query itself so `count` and ranges stay exact.
+function queryProductsPage(
+  filters: Required<ProductFilters>,
+  from: number,
+  to: number,
+  categoryId?: number | string,
+) {
+  let query = supabase
+    .from("products")
+    .select(PRODUCT_COLUMNS, { count: "exact" })
+    .is("deleted_at", null);
+
+  if (categoryId !== undefined) query = query.eq("category_id", categoryId);
+  if (filters.minPrice !== null) query = query.gte("price", filters.minPrice);
+  if (filters.maxPrice !== null) query = query.lte("price", filters.maxPrice);
+  if (filters.inStockOnly) query = query.eq("in_stock", true);
+
+  switch (filters.sort) {
+    case "price_asc":
+      return query
+        .order("price", { ascending: true, nullsFirst: false })
+        .order("id", { ascending: false })
+        .range(from, to);
+    case "price_desc":
+      return query
+        .order("price", { ascending: false, nullsFirst: false })
+        .order("id", { ascending: false })
+        .range(from, to);
+    case "name":
+      return query
+        .order("name", { ascending: true })
+        .order("id", { ascending: false })
+        .range(from, to);
+    default:
+      return query.order("created_at", { ascending: false }).range(from, to);
+  }
+}
+
 function clampPage(page: number): number {
   if (!Number.isFinite(page) || page < 1) return 1;
   return Math.floor(page);
@@ -50,7 +168,8 @@ export function useProducts() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from("products")
-        .select("id,name,price,image,category_id,in_stock")
+        .select(PRODUCT_COLUMNS)
+        .is("deleted_at", null)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -61,19 +180,107 @@ export function useProducts() {
   });
 }
 
-export function useProductsPaged(page: number, pageSize: number) {
+export function useProduct(id: number | null) {
+  return useQuery({
+    queryKey: ["product", id],
+    enabled: id !== null,
+    queryFn: async (): Promise<Product | null> => {
+      if (id === null) return null;
+
+      const { data, error } = await supabase
+        .from("products")
+        .select(PRODUCT_COLUMNS)
+        .is("deleted_at", null)
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return mapProductRows([data as ProductRow])[0];
+    },
+    staleTime: 10_000,
+  });
+}
+
+/** Products for the given ids (e.g. saved favorites); ids that no longer exist are simply absent. */
+export function useProductsByIds(ids: number[]) {
+  const sortedIds = Array.from(new Set(ids)).sort((a, b) => a - b);
+
+  return useQuery({
+    queryKey: ["productsByIds", sortedIds],
+    enabled: sortedIds.length > 0,
+    queryFn: async (): Promise<Product[]> => {
+      const { data, error } = await supabase
+        .from("products")
+        .select(PRODUCT_COLUMNS)
+        .is("deleted_at", null)
+        .in("id", sortedIds);
+
+      if (error) throw error;
+
+      const rows = (data ?? []) as ProductRow[];
+      return mapProductRows(rows);
+    },
+    // Removing a favorite changes the key; keep showing the rest meanwhile
+    placeholderData: keepPreviousData,
+    staleTime: 10_000,
+  });
+}
+
+export function useProductsPaged(page: number, pageSize: number, filters: ProductFilters = {}) {
   const safePage = clampPage(page);
   const safePageSize = Math.max(1, Math.floor(pageSize));
+  const safeFilters = normalizeFilters(filters);
 
   return useQuery({
-    queryKey: ["productsPaged", safePage, safePageSize],
+    queryKey: ["productsPaged", safePage, safePageSize, safeFilters],
     queryFn: async (): Promise<PagedResult<Product>> => {
       const from = (safePage - 1) * safePageSize;
       const to = from + safePageSize - 1;
 
-      const { data, error, count } = await supabase
+      const { data, error, count } = await queryProductsPage(safeFilters, from, to);
+
+      if (error) throw error;
+
+      const total = count ?? 0;
+      const totalPages = Math.max(1, Math.ceil(total / safePageSize));
+
+      return {
+        items: mapProductRows(((data ?? []) as ProductRow[]) ?? []),
+        total,
+        page: safePage,
+        pageSize: safePageSize,
+        totalPages,
+      };
+    },
+    staleTime: 10_000,
+  });
+}
+
+export function useProductSearch(query: string, page: number, pageSize = 20) {
+  const normalized = normalizeSearchQuery(query);
+  const safePage = clampPage(page);
+  const safePageSize = Math.max(1, Math.floor(pageSize));
+
+  return useQuery({
+    queryKey: ["productSearch", normalized, safePage, safePageSize],
+    enabled: normalized.length > 0,
+    queryFn: async (): Promise<PagedResult<Product>> => {
+      const from = (safePage - 1) * safePageSize;
+      const to = from + safePageSize - 1;
+
+      let request = supabase
         .from("products")
-        .select("id,name,price,image,category_id,in_stock", { count: "exact" })
+        .select(PRODUCT_COLUMNS, { count: "exact" })
+        .is("deleted_at", null);
+
+      // Every word has to appear somewhere in the name or description.
+      for (const term of normalized.split(" ")) {
+        request = request.ilike("search_text", `%${escapeLikePattern(term)}%`);
+      }
+
+      const { data, error, count } = await request
         .order("created_at", { ascending: false })
         .range(from, to);
 
@@ -104,6 +311,7 @@ export function useProductsByCategory(slug: string | null) {
       const { data: category, error: categoryError } = await supabase
         .from("categories")
         .select("id")
+        .is("deleted_at", null)
         .eq("slug", slug)
         .maybeSingle();
 
@@ -112,7 +320,8 @@ export function useProductsByCategory(slug: string | null) {
 
       const { data, error } = await supabase
         .from("products")
-        .select("id,name,price,image,category_id,in_stock")
+        .select(PRODUCT_COLUMNS)
+        .is("deleted_at", null)
         .eq("category_id", (category as { id: number | string }).id)
         .order("created_at", { ascending: false });
 
@@ -128,12 +337,14 @@ export function useProductsByCategoryPaged(
   slug: string | null,
   page: number,
   pageSize: number,
+  filters: ProductFilters = {},
 ) {
   const safePage = clampPage(page);
   const safePageSize = Math.max(1, Math.floor(pageSize));
+  const safeFilters = normalizeFilters(filters);
 
   return useQuery({
-    queryKey: ["productsByCategoryPaged", slug, safePage, safePageSize],
+    queryKey: ["productsByCategoryPaged", slug, safePage, safePageSize, safeFilters],
     enabled: !!slug,
     queryFn: async (): Promise<PagedResult<Product>> => {
       if (!slug) {
@@ -149,6 +360,7 @@ export function useProductsByCategoryPaged(
       const { data: category, error: categoryError } = await supabase
         .from("categories")
         .select("id")
+        .is("deleted_at", null)
         .eq("slug", slug)
         .maybeSingle();
 
@@ -166,12 +378,12 @@ export function useProductsByCategoryPaged(
       const from = (safePage - 1) * safePageSize;
       const to = from + safePageSize - 1;
 
-      const { data, error, count } = await supabase
-        .from("products")
-        .select("id,name,price,image,category_id,in_stock", { count: "exact" })
-        .eq("category_id", (category as { id: number | string }).id)
-        .order("created_at", { ascending: false })
-        .range(from, to);
+      const { data, error, count } = await queryProductsPage(
+        safeFilters,
+        from,
+        to,
+        (category as { id: number | string }).id,
+      );
 
       if (error) throw error;
 
@@ -0,0 +1,62 @@
+import { useRef, useState, type ChangeEvent } from "react";
+
+const DEVICE_ID_KEY = "deviceId";
+
+/** Random per-browser id, used by the database to throttle submissions from one device. */
+function getDeviceId(): string | null {
+  try {
+    let id = localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+  } catch (e) {
+    return null;
+  }
+}
+
+/** The `submit_*` functions answer with this code when a phone, device or address sends too often. */
+export function isRateLimitError(error: unknown): boolean {
+  return !!error && typeof error === "object" && (error as { code?: unknown }).code === "PT429";
+}
+
+/**
+ * Honeypot field and fill timer for the public forms. The hidden field is filled only by bots.
+ * The fill time is not checked here: it goes to the database, which flags submissions faster
+ * than a person can type as spam. Forms filled from saved data report no fill time.
+ */
+export function useSpamGuard() {
+  const startedAt = useRef(Date.now());
+  const prefilled = useRef(false);
+  const [honeypot, setHoneypot] = useState("");
+
+  return {
+    /** Props for a visually hidden `<input>` that people never see or focus. */
+    honeypotProps: {
+      name: "website",
+      type: "text",
+      value: honeypot,
+      onChange: (e: ChangeEvent<HTMLInputElement>) => setHoneypot(e.target.value),
+      tabIndex: -1,
+      autoComplete: "off",
+      "aria-hidden": true,
+      className: "absolute -left-[10000px] h-px w-px opacity-0",
+    },
+    isBot: () => honeypot.trim() !== "",
+    /** The fields were filled from saved data, so a quick submission is expected. */
+    markPrefilled: () => {
+      prefilled.current = true;
+    },
+    /** Arguments for `submit_inquiry` / `subscribe_newsletter`. */
+    getSubmissionParams: () => ({
+      p_device_id: getDeviceId(),
+      p_honeypot: honeypot || null,
+      p_elapsed_ms: prefilled.current ? null : Date.now() - startedAt.current,
+    }),
+    /** Starts the timer over, e.g. after a successful submission. */
+    restart: () => {
+      startedAt.current = Date.now();
+    },
+  };
+}
@@ -0,0 +1,42 @@
+export type AdminRole = "owner" | "manager" | "editor";
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "Владелец",
+  manager: "Менеджер",
+  editor: "Редактор",
+};
+
+export type AdminPermissions = {
+  /** Create and edit categories and products. */
+  editCatalog: boolean;
+  /** Move categories and products to the trash, restore and purge them. */
+  deleteCatalog: boolean;
+  /** Requests, customers and subscribers tabs: view requests and change their status. */
+  manageRequests: boolean;
+  viewStats: boolean;
+  /** "История" tab with the audit log. */
+  viewAudit: boolean;
+};
+
+const NO_PERMISSIONS: AdminPermissions = {
+  editCatalog: false,
+  deleteCatalog: false,
+  manageRequests: false,
+  viewStats: false,
+  viewAudit: false,
+};
+
+// Keep in sync with the RLS policies in supabase/migrations/*_admin_roles.sql
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermissions> = {
+  owner: { editCatalog: true, deleteCatalog: true, manageRequests: true, viewStats: true, viewAudit: true },
+  manager: { editCatalog: false, deleteCatalog: false, manageRequests: true, viewStats: true, viewAudit: false },
+  editor: { editCatalog: true, deleteCatalog: false, manageRequests: false, viewStats: false, viewAudit: false },
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return value === "owner" || value === "manager" || value === "editor";
+}
+
+export function getAdminPermissions(role: AdminRole | null): AdminPermissions {
+  return role ? ROLE_PERMISSIONS[role] : NO_PERMISSIONS;
+}
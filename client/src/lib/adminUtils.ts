@@ -0,0 +1,151 @@
+/** Formatting and parsing helpers shared by the admin panel and its tabs. */
+
+export const STATUS_LABELS: Record<string, string> = {
+  new: "Новая",
+  processing: "В обработке",
+  done: "Выполнена",
+  spam: "Спам",
+};
+
+/** Junk from the storefront forms: hidden from the requests list and stats unless filtered for. */
+export const SPAM_STATUS = "spam";
+
+export function getStatusLabel(status: string | null | undefined) {
+  if (!status) return "—";
+  return STATUS_LABELS[status] ?? status;
+}
+
+export function toFiniteNumber(value: unknown): number {
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n)) throw new Error("Invalid numeric value");
+  return n;
+}
+
+export function toNullableFiniteNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n)) return null;
+  return n;
+}
+
+export function getDbErrorMessage(error: unknown, fallback: string): string {
+  if (!error || typeof error !== "object") return fallback;
+  const maybe = error as { message?: unknown; code?: unknown; details?: unknown };
+
+  const code = typeof maybe.code === "string" ? maybe.code : undefined;
+  if (code === "23505") return "Значение уже существует (нарушено уникальное ограничение)";
+  if (code === "23503") return "Некорректная ссылка (возможно, выбрана удалённая категория)";
+  if (code === "23502") return "Не заполнены обязательные поля";
+
+  if (typeof maybe.message === "string" && maybe.message.trim().length)
+    return maybe.message;
+  if (typeof maybe.details === "string" && maybe.details.trim().length)
+    return maybe.details;
+
+  return fallback;
+}
+
+export function slugify(input: string): string {
+  const map: Record<string, string> = {
+    а: "a",
+    б: "b",
+    в: "v",
+    г: "g",
+    д: "d",
+    е: "e",
+    ё: "e",
+    ж: "zh",
+    з: "z",
+    и: "i",
+    й: "y",
+    к: "k",
+    л: "l",
+    м: "m",
+    н: "n",
+    о: "o",
+    п: "p",
+    р: "r",
+    с: "s",
+    т: "t",
+    у: "u",
+    ф: "f",
+    х: "h",
+    ц: "ts",
+    ч: "ch",
+    ш: "sh",
+    щ: "sch",
+    ъ: "",
+    ы: "y",
+    ь: "",
+    э: "e",
+    ю: "yu",
+    я: "ya",
+  };
+
+  const translit = input
+    .trim()
+    .toLowerCase()
+    .split("")
+    .map((ch) => (map[ch] !== undefined ? map[ch] : ch))
+    .join("");
+
+  const base = translit
+    .replace(/['\"]/g, "")
+    .replace(/[^a-z0-9\s-]/g, "")
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+
+  return base || `category-${Date.now()}`;
+}
+
+export function formatMoney(value: number | null): string {
+  if (value === null) return "—";
+  return new Intl.NumberFormat(undefined, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+export function formatDateTime(value: string | null): string {
+  if (!value) return "—";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat("ru-RU", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(date);
+}
+
+/** Local calendar date as `YYYY-MM-DD`, the format of `<input type="date">` and SQL `date`. */
+export function toDateInputValue(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+export function formatDate(value: string | null): string {
+  if (!value) return "—";
+  // Plain dates are parsed as local midnight, not UTC, so the day does not shift
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat("ru-RU", { dateStyle: "medium" }).format(date);
+}
+
+/** A call-back date in the past on a request that is not done yet. */
+export function isFollowUpOverdue(followUpOn: string | null, status: string | null): boolean {
+  return !!followUpOn && status !== "done" && followUpOn < toDateInputValue(new Date());
+}
+
+/** Compact duration for metrics: "45 мин", "3 ч 20 мин", "2 дн 4 ч". */
+export function formatDuration(seconds: number | null): string {
+  if (seconds === null || !Number.isFinite(seconds)) return "—";
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) return "< 1 мин";
+  if (minutes < 60) return `${minutes} мин`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 ? `${hours} ч ${minutes % 60} мин` : `${hours} ч`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days} дн ${hours % 24} ч` : `${days} дн`;
+}
@@ -0,0 +1,170 @@
+import { supabase } from "@/lib/supabaseClient";
+import { downloadTextFile, toCsv } from "@/lib/csv";
+import { toFiniteNumber, toNullableFiniteNumber } from "@/lib/adminUtils";
+
+/** PostgREST caps responses at 1000 rows by default. */
+const EXPORT_PAGE_SIZE = 1000;
+
+export type ExportFormat = "csv" | "json";
+
+export type ProductExportRow = {
+  id: number;
+  name: string;
+  category_slug: string | null;
+  category_name: string | null;
+  price: number | null;
+  in_stock: boolean;
+  image: string | null;
+  /** All gallery photos in display order. */
+  images: string[];
+  description: string | null;
+  material: string | null;
+  dimensions: string | null;
+  weight: string | null;
+  color: string | null;
+  care_instructions: string | null;
+  created_at: string;
+};
+
+export type CategoryExportRow = {
+  id: number;
+  name: string;
+  slug: string;
+  products_count: number;
+};
+
+/** Fetches products page by page; `categoryId` narrows the export to one category. */
+export async function fetchProductsForExport(categoryId: number | null): Promise<ProductExportRow[]> {
+  const result: ProductExportRow[] = [];
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    let query = supabase
+      .from("products")
+      .select(
+        "id,name,description,category_id,in_stock,price,image,material,dimensions,weight,color,care_instructions,created_at,categories(name,slug),product_images(url,position)",
+      )
+      .is("deleted_at", null)
+      .order("id", { ascending: true })
+      .range(from, from + EXPORT_PAGE_SIZE - 1);
+    if (categoryId !== null) query = query.eq("category_id", categoryId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = (data ?? []) as unknown as Array<{
+      id: unknown;
+      name: string;
+      description: string | null;
+      in_stock: unknown;
+      price: unknown;
+      image: string | null;
+      material: string | null;
+      dimensions: string | null;
+      weight: string | null;
+      color: string | null;
+      care_instructions: string | null;
+      created_at: string;
+      categories: { name: string; slug: string } | null;
+      product_images: Array<{ url: string; position: number }> | null;
+    }>;
+
+    rows.forEach((row) => {
+      const images = (row.product_images ?? [])
+        .slice()
+        .sort((a, b) => a.position - b.position)
+        .map((img) => img.url);
+      if (!images.length && row.image) images.push(row.image);
+
+      result.push({
+        id: toFiniteNumber(row.id),
+        name: row.name,
+        category_slug: row.categories?.slug ?? null,
+        category_name: row.categories?.name ?? null,
+        price: toNullableFiniteNumber(row.price),
+        in_stock: Boolean(row.in_stock),
+        image: row.image ?? null,
+        images,
+        description: row.description ?? null,
+        material: row.material ?? null,
+        dimensions: row.dimensions ?? null,
+        weight: row.weight ?? null,
+        color: row.color ?? null,
+        care_instructions: row.care_instructions ?? null,
+        created_at: row.created_at,
+      });
+    });
+
+    if (rows.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  return result;
+}
+
+export async function fetchCategoriesForExport(): Promise<CategoryExportRow[]> {
+  const { data, error } = await supabase
+    .from("categories")
+    .select("id,name,slug,products(count)")
+    .is("deleted_at", null)
+    .is("products.deleted_at", null)
+    .order("name", { ascending: true });
+  if (error) throw error;
+
+  return (
+    (data ?? []) as unknown as Array<{
+      id: unknown;
+      name: string;
+      slug: string;
+      products: Array<{ count: number }> | null;
+    }>
+  ).map((row) => ({
+    id: toFiniteNumber(row.id),
+    name: row.name,
+    slug: row.slug,
+    products_count: row.products?.[0]?.count ?? 0,
+  }));
+}
+
+// The CSV columns use the product import's headers, so an export can serve as a template for
+// another shop. Importing always creates new products (`id` is ignored): it does not update these.
+const PRODUCT_CSV_COLUMNS: Array<keyof ProductExportRow & string> = [
+  "id",
+  "name",
+  "category_slug",
+  "category_name",
+  "price",
+  "in_stock",
+  "image",
+  "images",
+  "description",
+  "material",
+  "dimensions",
+  "weight",
+  "color",
+  "care_instructions",
+  "created_at",
+];
+
+const CATEGORY_CSV_COLUMNS: Array<keyof CategoryExportRow & string> = ["id", "name", "slug", "products_count"];
+
+function getExportDate() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function downloadProductsExport(rows: ProductExportRow[], format: ExportFormat, suffix: string) {
+  const fileName = `products-${suffix}-${getExportDate()}.${format}`;
+  if (format === "json") {
+    downloadTextFile(JSON.stringify(rows, null, 2), fileName, "application/json");
+    return;
+  }
+  const csvRows = rows.map((row) => ({ ...row, images: row.images.join(" ") }));
+  downloadTextFile(toCsv(csvRows, PRODUCT_CSV_COLUMNS), fileName, "text/csv;charset=utf-8");
+}
+
+export function downloadCategoriesExport(rows: CategoryExportRow[], format: ExportFormat) {
+  const fileName = `categories-${getExportDate()}.${format}`;
+  if (format === "json") {
+    downloadTextFile(JSON.stringify(rows, null, 2), fileName, "application/json");
+    return;
+  }
+  downloadTextFile(toCsv(rows, CATEGORY_CSV_COLUMNS), fileName, "text/csv;charset=utf-8");
+}
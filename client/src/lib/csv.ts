@@ -0,0 +1,100 @@
+/** Minimal RFC 4180 CSV handling for admin imports and exports. */
+
+/**
+ * Spreadsheet apps in ru locales save CSV with ";" — pick whichever separator occurs more
+ * often in the header line (quoted parts are ignored).
+ */
+function detectDelimiter(text: string): "," | ";" {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const unquoted = firstLine.replace(/"[^"]*"/g, "");
+  const semicolons = unquoted.split(";").length;
+  const commas = unquoted.split(",").length;
+  return semicolons > commas ? ";" : ",";
+}
+
+/** Parses CSV text into rows of cells. Handles quoted cells, escaped quotes and newlines in quotes. */
+export function parseCsv(input: string): string[][] {
+  const text = input.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+
+  if (cell.length || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines (e.g. trailing ones) are not data rows
+  return rows.filter((r) => r.some((c) => c.trim().length));
+}
+
+/**
+ * Spreadsheets run cells starting with these as formulas (`=HYPERLINK(…)` in a client name).
+ * Plain numbers and phone numbers like `+992 92 123 45 67` are left alone.
+ */
+function neutralizeFormula(text: string): string {
+  if (!/^[=+\-@\t\r]/.test(text) || /^[+-]?[\d\s().,]+$/.test(text)) return text;
+  return `'${text}`;
+}
+
+function escapeCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = neutralizeFormula(
+    typeof value === "string" ? value : typeof value === "object" ? JSON.stringify(value) : String(value),
+  );
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Serializes rows with a header line; `columns` fixes the order and picks the fields. */
+export function toCsv<T extends Record<string, unknown>>(rows: T[], columns: Array<keyof T & string>): string {
+  const lines = [columns.join(","), ...rows.map((row) => columns.map((c) => escapeCsvCell(row[c])).join(","))];
+  return lines.join("\r\n");
+}
+
+/** Saves text as a file in the browser. CSV gets a BOM so Excel detects UTF-8. */
+export function downloadTextFile(content: string, fileName: string, mimeType: string) {
+  const body = mimeType.startsWith("text/csv") ? `\uFEFF${content}` : content;
+  const url = URL.createObjectURL(new Blob([body], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
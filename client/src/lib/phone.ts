@@ -0,0 +1,92 @@
+/**
+ * Phone numbers: validation and normalization to E.164 (`+992921234567`).
+ * Numbers without a country code are read as Tajik. Keep `normalizePhone` in sync with
+ * `public.normalize_phone` in supabase/migrations, which groups requests by customer.
+ */
+
+export const DEFAULT_COUNTRY_CODE = "992";
+
+/** Length of a Tajik number without the country code. */
+const TJ_NATIONAL_LENGTH = 9;
+
+/**
+ * First two digits of Tajik mobile numbers (Tcell, MegaFon, Babilon-M, ZET-Mobile, O-Mobile).
+ * Operators get new ranges from time to time — extend the list when customers report a
+ * valid number being rejected.
+ */
+export const TJ_MOBILE_PREFIXES = [
+  "00", "01", "02", "03", "05", "07", "10", "11", "12", "20", "40", "50", "55",
+  "70", "71", "75", "77", "80", "81", "88", "90", "91", "92", "93", "98", "99",
+];
+
+/** E.164 allows at most 15 digits including the country code. */
+const MAX_E164_DIGITS = 15;
+const MIN_FOREIGN_DIGITS = 8;
+
+export type PhoneParseResult = { ok: true; e164: string } | { ok: false; error: string };
+
+/** Only the digits of the input, e.g. for searching stored numbers by a fragment. */
+export function getPhoneDigits(value: string): string {
+  return value.replace(/\D/g, "");
+}
+
+/**
+ * Reads a number typed by a visitor or staff member. Accepted forms:
+ * `+992 92 123 45 67`, `00992921234567`, `992921234567`, `92 123 45 67`, `092 123 45 67`,
+ * and foreign numbers with their country code (`+7 916 123-45-67`).
+ */
+export function parsePhone(input: string): PhoneParseResult {
+  const trimmed = input.trim();
+  if (!trimmed) return { ok: false, error: "Введите номер телефона." };
+  if (/[^\d\s()+.-]/.test(trimmed)) return { ok: false, error: "Номер может содержать только цифры." };
+
+  let digits = getPhoneDigits(trimmed);
+  if (!trimmed.startsWith("+")) {
+    // "00" is both a Tajik operator prefix and the international call prefix: 9 digits are always local
+    if (digits.length === TJ_NATIONAL_LENGTH + 1 && digits.startsWith("0") && !digits.startsWith("00")) {
+      digits = digits.slice(1);
+    }
+    if (digits.length === TJ_NATIONAL_LENGTH) digits = `${DEFAULT_COUNTRY_CODE}${digits}`;
+    else if (digits.startsWith("00")) digits = digits.slice(2);
+  }
+
+  if (digits.startsWith(DEFAULT_COUNTRY_CODE)) {
+    const national = digits.slice(DEFAULT_COUNTRY_CODE.length);
+    if (national.length !== TJ_NATIONAL_LENGTH) {
+      return { ok: false, error: "Номер в Таджикистане — 9 цифр после +992." };
+    }
+    if (!TJ_MOBILE_PREFIXES.includes(national.slice(0, 2))) {
+      return { ok: false, error: "Проверьте код оператора в номере." };
+    }
+    return { ok: true, e164: `+${digits}` };
+  }
+
+  if (digits.length < MIN_FOREIGN_DIGITS || digits.length > MAX_E164_DIGITS || digits.startsWith("0")) {
+    return { ok: false, error: "Введите номер полностью, с кодом страны." };
+  }
+  return { ok: true, e164: `+${digits}` };
+}
+
+/** E.164 form of a valid number, otherwise null. */
+export function normalizePhone(input: string | null | undefined): string | null {
+  if (!input) return null;
+  const result = parsePhone(input);
+  return result.ok ? result.e164 : null;
+}
+
+/** Readable form for the admin panel: `+992 92 123 45 67`; unknown formats are returned as is. */
+export function formatPhone(input: string | null | undefined): string {
+  if (!input) return "—";
+  const e164 = normalizePhone(input);
+  if (!e164) return input;
+  if (e164.startsWith(`+${DEFAULT_COUNTRY_CODE}`)) {
+    const n = e164.slice(DEFAULT_COUNTRY_CODE.length + 1);
+    return `+${DEFAULT_COUNTRY_CODE} ${n.slice(0, 2)} ${n.slice(2, 5)} ${n.slice(5, 7)} ${n.slice(7)}`;
+  }
+  return e164;
+}
+
+/** Input filter for phone fields: keeps digits, "+" and common separators. */
+export function sanitizePhoneInput(value: string): string {
+  return value.replace(/[^\d\s()+-]/g, "");
+}
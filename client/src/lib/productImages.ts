@@ -0,0 +1,104 @@
+import { supabase } from "@/lib/supabaseClient";
+
+export const PRODUCT_IMAGES_BUCKET = "product-images";
+
+export function getStoragePathFromPublicUrl(publicUrl: string): string | null {
+  if (!publicUrl) return null;
+  const marker = `/storage/v1/object/public/${PRODUCT_IMAGES_BUCKET}/`;
+
+  try {
+    const url = new URL(publicUrl);
+    const idx = url.pathname.indexOf(marker);
+    if (idx === -1) return null;
+    const path = url.pathname.slice(idx + marker.length);
+    return path ? decodeURIComponent(path) : null;
+  } catch {
+    // Fallback for non-absolute URLs.
+    const idx = publicUrl.indexOf(marker);
+    if (idx === -1) return null;
+    const path = publicUrl.slice(idx + marker.length);
+    return path ? decodeURIComponent(path) : null;
+  }
+}
+
+export async function fetchProductImageUrls(productId: number, fallback: string | null): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("product_images")
+    .select("url,position")
+    .eq("product_id", productId)
+    .order("position", { ascending: true });
+  if (error) throw error;
+
+  const urls = ((data ?? []) as Array<{ url: string }>).map((row) => row.url);
+  if (!urls.length && fallback) urls.push(fallback);
+  return urls;
+}
+
+/** Removes bucket files behind the given public URLs; URLs outside the bucket are skipped. */
+export async function removeStorageImages(urls: string[]) {
+  const paths = urls
+    .map((url) => getStoragePathFromPublicUrl(url))
+    .filter((path): path is string => !!path);
+  if (!paths.length) return null;
+
+  const { error } = await supabase.storage.from(PRODUCT_IMAGES_BUCKET).remove(paths);
+  return error;
+}
+
+export async function uploadProductImage(file: File): Promise<string> {
+  const extRaw = file.name.split(".").pop()?.toLowerCase() ?? "bin";
+  const ext = /^[a-z0-9]+$/.test(extRaw) ? extRaw : "bin";
+
+  const id =
+    typeof crypto !== "undefined" && "randomUUID" in crypto
+      ? crypto.randomUUID()
+      : Math.random().toString(16).slice(2);
+
+  const path = `${Date.now()}-${id}.${ext}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(PRODUCT_IMAGES_BUCKET)
+    .upload(path, file, {
+      upsert: false,
+      contentType: file.type || undefined,
+    });
+
+  if (uploadError) throw uploadError;
+
+  const { data } = supabase.storage.from(PRODUCT_IMAGES_BUCKET).getPublicUrl(path);
+  if (!data?.publicUrl) throw new Error("Не удалось получить публичную ссылку на изображение");
+  return data.publicUrl;
+}
+
+/**
+ * Permanently deletes products and then their photo files. Photos and variants rows are
+ * removed by ON DELETE CASCADE. Returns the storage error, if any, after the rows are gone:
+ * a leftover file is not worth failing the purge for.
+ */
+export async function purgeProducts(ids: number[]) {
+  if (!ids.length) return null;
+
+  const { data, error: productsError } = await supabase
+    .from("products")
+    .select("id,image,product_images(url),product_variants(image)")
+    .in("id", ids);
+  if (productsError) throw productsError;
+
+  const urls = new Set<string>();
+  ((data ?? []) as Array<{
+    image: string | null;
+    product_images: Array<{ url: string }> | null;
+    product_variants: Array<{ image: string | null }> | null;
+  }>).forEach((row) => {
+    if (row.image) urls.add(row.image);
+    (row.product_images ?? []).forEach((img) => urls.add(img.url));
+    (row.product_variants ?? []).forEach((v) => {
+      if (v.image) urls.add(v.image);
+    });
+  });
+
+  const { error } = await supabase.from("products").delete().in("id", ids);
+  if (error) throw error;
+
+  return removeStorageImages(Array.from(urls));
+}
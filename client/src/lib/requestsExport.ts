@@ -0,0 +1,189 @@
+import { supabase } from "@/lib/supabaseClient";
+import { downloadTextFile, toCsv } from "@/lib/csv";
+import { formatDateTime, getStatusLabel, toFiniteNumber, toNullableFiniteNumber } from "@/lib/adminUtils";
+
+const EXPORT_PAGE_SIZE = 1000;
+/** Keeps `in.(...)` filters well under URL length limits. */
+const PRODUCT_LOOKUP_CHUNK = 200;
+
+/** Status filter value for requests that have no status yet. */
+export const NO_STATUS_VALUE = "__none__";
+
+export type RequestsExportFilters = {
+  /** Inclusive local dates, `YYYY-MM-DD`. */
+  from: string;
+  to: string;
+  /** STATUS_LABELS keys and/or NO_STATUS_VALUE. */
+  statuses: string[];
+};
+
+type RequestExportRow = {
+  id: number;
+  created_at: string;
+  status: string;
+  products: string;
+  categories: string;
+  client_name: string;
+  client_phone: string;
+  client_message: string;
+};
+
+const REQUEST_CSV_COLUMNS: Array<keyof RequestExportRow & string> = [
+  "id",
+  "created_at",
+  "status",
+  "products",
+  "categories",
+  "client_name",
+  "client_phone",
+  "client_message",
+];
+
+async function fetchProductCategories(ids: number[]) {
+  const result = new Map<number, { name: string; category: string | null }>();
+  for (let i = 0; i < ids.length; i += PRODUCT_LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from("products")
+      .select("id,name,categories(name)")
+      .in("id", ids.slice(i, i + PRODUCT_LOOKUP_CHUNK));
+    if (error) throw error;
+    ((data ?? []) as unknown as Array<{ id: unknown; name: string; categories: { name: string } | null }>).forEach(
+      (p) => result.set(toFiniteNumber(p.id), { name: p.name, category: p.categories?.name ?? null }),
+    );
+  }
+  return result;
+}
+
+/** Builds and downloads the CSV; returns the number of exported requests. */
+export async function exportRequestsCsv(filters: RequestsExportFilters): Promise<number> {
+  const fromDate = new Date(`${filters.from}T00:00:00`);
+  const toDate = new Date(`${filters.to}T00:00:00`);
+  toDate.setDate(toDate.getDate() + 1);
+
+  const statuses = filters.statuses.filter((s) => s !== NO_STATUS_VALUE);
+  const includeNoStatus = filters.statuses.includes(NO_STATUS_VALUE);
+
+  const requests: Array<{
+    id: number;
+    created_at: string;
+    status: string | null;
+    client_name: string | null;
+    client_phone: string | null;
+    client_message: string | null;
+    product_id: number | null;
+    variant_name: string | null;
+    items: Array<{ product_id: number | null; product_name: string; variant_name: string | null; quantity: number }>;
+  }> = [];
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    let query = supabase
+      .from("requests")
+      .select(
+        "id,client_name,client_phone,client_message,product_id,variant_name,status,created_at,request_items(product_id,product_name,variant_name,quantity,position)",
+      )
+      .gte("created_at", fromDate.toISOString())
+      .lt("created_at", toDate.toISOString())
+      .order("created_at", { ascending: true })
+      .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+    if (includeNoStatus) {
+      query = statuses.length
+        ? query.or(`status.in.(${statuses.join(",")}),status.is.null`)
+        : query.is("status", null);
+    } else {
+      query = query.in("status", statuses);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = (data ?? []) as Array<{
+      id: unknown;
+      client_name: string | null;
+      client_phone: string | null;
+      client_message: string | null;
+      product_id: unknown;
+      variant_name: string | null;
+      status: string | null;
+      created_at: string;
+      request_items: Array<{
+        product_id: unknown;
+        product_name: string;
+        variant_name: string | null;
+        quantity: unknown;
+        position: unknown;
+      }> | null;
+    }>;
+
+    rows.forEach((r) =>
+      requests.push({
+        id: toFiniteNumber(r.id),
+        created_at: r.created_at,
+        status: r.status,
+        client_name: r.client_name,
+        client_phone: r.client_phone,
+        client_message: r.client_message,
+        product_id: toNullableFiniteNumber(r.product_id),
+        variant_name: r.variant_name,
+        items: (r.request_items ?? [])
+          .slice()
+          .sort((a, b) => toFiniteNumber(a.position) - toFiniteNumber(b.position))
+          .map((item) => ({
+            product_id: toNullableFiniteNumber(item.product_id),
+            product_name: item.product_name,
+            variant_name: item.variant_name ?? null,
+            quantity: toFiniteNumber(item.quantity) || 1,
+          })),
+      }),
+    );
+
+    if (rows.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  const productIds = Array.from(
+    new Set(
+      requests
+        .flatMap((r) => [r.product_id, ...r.items.map((item) => item.product_id)])
+        .filter((id): id is number => id !== null),
+    ),
+  );
+  const products = await fetchProductCategories(productIds);
+
+  const rows: RequestExportRow[] = requests.map((r) => {
+    // Older single-product requests have no line items, only `product_id`
+    const lines = r.items.length
+      ? r.items
+      : r.product_id !== null
+        ? [{ product_id: r.product_id, product_name: products.get(r.product_id)?.name ?? `#${r.product_id}`, variant_name: r.variant_name, quantity: 1 }]
+        : [];
+
+    const categories = new Set(
+      lines
+        .map((line) => (line.product_id !== null ? products.get(line.product_id)?.category : null))
+        .filter((name): name is string => !!name),
+    );
+
+    return {
+      id: r.id,
+      created_at: formatDateTime(r.created_at),
+      status: getStatusLabel(r.status),
+      products: lines
+        .map(
+          (line) =>
+            `${line.product_name}${line.variant_name ? ` (${line.variant_name})` : ""}${line.quantity > 1 ? ` × ${line.quantity}` : ""}`,
+        )
+        .join("; "),
+      categories: Array.from(categories).join("; "),
+      client_name: r.client_name ?? "",
+      client_phone: r.client_phone ?? "",
+      client_message: r.client_message ?? "",
+    };
+  });
+
+  downloadTextFile(
+    toCsv(rows, REQUEST_CSV_COLUMNS),
+    `requests-${filters.from}-${filters.to}.csv`,
+    "text/csv;charset=utf-8",
+  );
+  return rows.length;
+}
@@ -0,0 +1,60 @@
+import { supabase } from "@/lib/supabaseClient";
+import { downloadTextFile, toCsv } from "@/lib/csv";
+import { formatDateTime, toDateInputValue } from "@/lib/adminUtils";
+
+const EXPORT_PAGE_SIZE = 1000;
+
+type SubscriberExportRow = {
+  phone: string;
+  source: string;
+  consented_at: string;
+  unsubscribed_at: string;
+};
+
+const SUBSCRIBER_CSV_COLUMNS: Array<keyof SubscriberExportRow & string> = [
+  "phone",
+  "source",
+  "consented_at",
+  "unsubscribed_at",
+];
+
+/** Builds and downloads the CSV; returns the number of exported subscribers. */
+export async function exportSubscribersCsv({ includeUnsubscribed }: { includeUnsubscribed: boolean }): Promise<number> {
+  const rows: SubscriberExportRow[] = [];
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    let query = supabase
+      .from("newsletter_subscribers")
+      .select("phone,source,consented_at,unsubscribed_at")
+      .order("consented_at", { ascending: true })
+      .range(from, from + EXPORT_PAGE_SIZE - 1);
+    if (!includeUnsubscribed) query = query.is("unsubscribed_at", null);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const page = (data ?? []) as Array<{
+      phone: string;
+      source: string;
+      consented_at: string;
+      unsubscribed_at: string | null;
+    }>;
+    page.forEach((s) =>
+      rows.push({
+        phone: s.phone,
+        source: s.source,
+        consented_at: formatDateTime(s.consented_at),
+        unsubscribed_at: s.unsubscribed_at ? formatDateTime(s.unsubscribed_at) : "",
+      }),
+    );
+
+    if (page.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  downloadTextFile(
+    toCsv(rows, SUBSCRIBER_CSV_COLUMNS),
+    `subscribers-${toDateInputValue(new Date())}.csv`,
+    "text/csv;charset=utf-8",
+  );
+  return rows.length;
+}
@@ -13,8 +13,8 @@ type SeedResult = {
 };
 
 export async function seedTestCategoryAndProduct(): Promise<SeedResult> {
-  // Note: RLS must allow inserts for anon if you're running this from the browser.
-  // For a safe setup, run inserts from server-side with service_role (not used here).
+  // Note: RLS only allows catalog writes for signed-in admins, so call this from the
+  // admin panel session (or server-side with service_role, not used here).
 
   const seedCategory = {
     name: "Тестовая категория",
@@ -21,6 +21,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -29,6 +30,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Table,
   TableBody,
@@ -39,11 +41,60 @@ import {
 } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Navigation } from "@/components/Navigation";
+import {
+  ProductImagesEditor,
+  createImageDraftFromUrl,
+  revokeImageDrafts,
+  type ProductImageDraft,
+} from "@/components/admin/ProductImagesEditor";
+import {
+  ProductVariantsEditor,
+  type ProductVariantDraft,
+} from "@/components/admin/ProductVariantsEditor";
+import { AuditLogTab } from "@/components/admin/AuditLogTab";
+import { TrashTab } from "@/components/admin/TrashTab";
+import { ProductImportDialog } from "@/components/admin/ProductImportDialog";
+import { CatalogExportMenu } from "@/components/admin/CatalogExportMenu";
+import { RequestsExportDialog } from "@/components/admin/RequestsExportDialog";
+import { RequestsBoard } from "@/components/admin/RequestsBoard";
+import { RequestFollowUpPanel } from "@/components/admin/RequestFollowUpPanel";
+import { RequestStatusTimeline } from "@/components/admin/RequestStatusTimeline";
+import { RequestResponseTimes } from "@/components/admin/RequestResponseTimes";
+import { CustomersTab } from "@/components/admin/CustomersTab";
+import { SubscribersTab } from "@/components/admin/SubscribersTab";
+import {
+  EMPTY_REQUESTS_FILTERS,
+  EMPTY_STATUS_FILTER,
+  RequestsFiltersBar,
+  hasRequestsFilters,
+  toRequestsSearchFilter,
+  type RequestsFilters,
+} from "@/components/admin/RequestsFiltersBar";
 import { Footer } from "@/components/Footer";
+import {
+  fetchProductImageUrls,
+  removeStorageImages,
+  uploadProductImage,
+} from "@/lib/productImages";
 import { supabase } from "@/lib/supabaseClient";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
-import imageCompression from "browser-image-compression";
+import { useAdminRole, useAuthSession } from "@/hooks/use-auth";
+import { ADMIN_ROLE_LABELS, getAdminPermissions } from "@/lib/adminRoles";
+import { formatPhone } from "@/lib/phone";
+import {
+  formatDateTime,
+  formatDate,
+  formatMoney,
+  getDbErrorMessage,
+  getStatusLabel,
+  isFollowUpOverdue,
+  slugify,
+  SPAM_STATUS,
+  toDateInputValue,
+  toFiniteNumber,
+  toNullableFiniteNumber,
+} from "@/lib/adminUtils";
+import { Ban, Download, FileUp, LayoutGrid, List, Loader2, LogOut, Pencil, Plus, Trash2 } from "lucide-react";
 // Chart removed from Admin stats UI
 
 type CategoryRow = {
@@ -55,171 +106,52 @@ type CategoryRow = {
 type ProductRow = {
   id: number;
   name: string;
+  description: string | null;
   category_id: number | null;
   in_stock: boolean;
   price: number | null;
   image: string | null;
+  material: string | null;
+  dimensions: string | null;
+  weight: string | null;
+  color: string | null;
+  care_instructions: string | null;
 };
 
-const NO_CATEGORY_VALUE = "__none__";
-const EMPTY_SELECT_VALUE = "__empty__";
-const PRODUCT_IMAGES_BUCKET = "product-images";
-const STATUS_LABELS: Record<string, string> = {
-  new: "Новая",
-  processing: "В обработке",
-  done: "Выполнена",
+/** Line item of a multi-item inquiry; names are snapshots taken when the request was sent. */
+type RequestItem = {
+  product_id: number | null;
+  product_name: string;
+  variant_name: string | null;
+  quantity: number;
 };
 
-function getStatusLabel(status: string | null | undefined) {
-  if (!status) return "—";
-  return STATUS_LABELS[status] ?? status;
-}
-
-function getStoragePathFromPublicUrl(publicUrl: string): string | null {
-  if (!publicUrl) return null;
-  const marker = `/storage/v1/object/public/${PRODUCT_IMAGES_BUCKET}/`;
-
-  try {
-    const url = new URL(publicUrl);
-    const idx = url.pathname.indexOf(marker);
-    if (idx === -1) return null;
-    const path = url.pathname.slice(idx + marker.length);
-    return path ? decodeURIComponent(path) : null;
-  } catch {
-    // Fallback for non-absolute URLs.
-    const idx = publicUrl.indexOf(marker);
-    if (idx === -1) return null;
-    const path = publicUrl.slice(idx + marker.length);
-    return path ? decodeURIComponent(path) : null;
-  }
-}
-
-async function compressProductImage(file: File): Promise<File> {
-  // Practical defaults for product photos: keep decent quality, limit dimensions and file size.
-  // Uses a web worker to avoid blocking the UI.
-  return await imageCompression(file, {
-    maxSizeMB: 0.6,
-    maxWidthOrHeight: 1600,
-    useWebWorker: true,
-    initialQuality: 0.82,
-    fileType: "image/jpeg",
-  });
-}
-
-function toFiniteNumber(value: unknown): number {
-  const n = typeof value === "number" ? value : Number(value);
-  if (!Number.isFinite(n)) throw new Error("Invalid numeric value");
-  return n;
-}
-
-function toNullableFiniteNumber(value: unknown): number | null {
-  if (value === null || value === undefined) return null;
-  const n = typeof value === "number" ? value : Number(value);
-  if (!Number.isFinite(n)) return null;
-  return n;
-}
-
-function getDbErrorMessage(error: unknown, fallback: string): string {
-  if (!error || typeof error !== "object") return fallback;
-  const maybe = error as { message?: unknown; code?: unknown; details?: unknown };
-
-  const code = typeof maybe.code === "string" ? maybe.code : undefined;
-  if (code === "23505") return "Значение уже существует (нарушено уникальное ограничение)";
-  if (code === "23503") return "Некорректная ссылка (возможно, выбрана удалённая категория)";
-  if (code === "23502") return "Не заполнены обязательные поля";
-
-  if (typeof maybe.message === "string" && maybe.message.trim().length)
-    return maybe.message;
-  if (typeof maybe.details === "string" && maybe.details.trim().length)
-    return maybe.details;
-
-  return fallback;
-}
-
-function slugify(input: string): string {
-  const map: Record<string, string> = {
-    а: "a",
-    б: "b",
-    в: "v",
-    г: "g",
-    д: "d",
-    е: "e",
-    ё: "e",
-    ж: "zh",
-    з: "z",
-    и: "i",
-    й: "y",
-    к: "k",
-    л: "l",
-    м: "m",
-    н: "n",
-    о: "o",
-    п: "p",
-    р: "r",
-    с: "s",
-    т: "t",
-    у: "u",
-    ф: "f",
-    х: "h",
-    ц: "ts",
-    ч: "ch",
-    ш: "sh",
-    щ: "sch",
-    ъ: "",
-    ы: "y",
-    ь: "",
-    э: "e",
-    ю: "yu",
-    я: "ya",
-  };
-
-  const translit = input
-    .trim()
-    .toLowerCase()
-    .split("")
-    .map((ch) => (map[ch] !== undefined ? map[ch] : ch))
-    .join("");
-
-  const base = translit
-    .replace(/['\"]/g, "")
-    .replace(/[^a-z0-9\s-]/g, "")
-    .replace(/\s+/g, "-")
-    .replace(/-+/g, "-")
-    .replace(/^-|-$/g, "");
-
-  return base || `category-${Date.now()}`;
-}
-
-function formatMoney(value: number | null): string {
-  if (value === null) return "—";
-  return new Intl.NumberFormat(undefined, {
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 2,
-  }).format(value);
-}
-
-function formatBytes(bytes: number): string {
-  if (!Number.isFinite(bytes) || bytes < 0) return "—";
-  if (bytes < 1024) return `${bytes} B`;
-  const kb = bytes / 1024;
-  if (kb < 1024) return `${kb.toFixed(1)} KB`;
-  const mb = kb / 1024;
-  return `${mb.toFixed(2)} MB`;
-}
+type ProductAttributesForm = {
+  material: string;
+  dimensions: string;
+  weight: string;
+  color: string;
+  care_instructions: string;
+};
 
-function formatDateTime(value: string | null): string {
-  if (!value) return "—";
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return value;
-  return new Intl.DateTimeFormat("ru-RU", {
-    dateStyle: "medium",
-    timeStyle: "short",
-  }).format(date);
-}
+const EMPTY_PRODUCT_ATTRIBUTES: ProductAttributesForm = {
+  material: "",
+  dimensions: "",
+  weight: "",
+  color: "",
+  care_instructions: "",
+};
 
+const NO_CATEGORY_VALUE = "__none__";
+const NO_PERMISSION_MESSAGE = "Ваша роль не позволяет выполнить это действие.";
+const EMPTY_SELECT_VALUE = "__empty__";
 export default function Admin() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user } = useAuthSession();
+  const role = useAdminRole(user?.id ?? null).data ?? null;
+  const can = getAdminPermissions(role);
+  const [signingOut, setSigningOut] = useState(false);
 
   const pageSize = 20;
   const [categoriesPage, setCategoriesPage] = useState(1);
@@ -227,7 +159,19 @@ export default function Admin() {
   const [filterCategory, setFilterCategory] = useState<string | null>(null);
 
   // Tabs and statistics state
-  const [activeTab, setActiveTab] = useState<string>("categories");
+  const availableTabs = [
+    ...(can.editCatalog ? ["categories", "products"] : []),
+    ...(can.manageRequests ? ["requests", "customers", "subscribers"] : []),
+    ...(can.viewStats ? ["stats"] : []),
+    ...(can.deleteCatalog ? ["trash"] : []),
+    ...(can.viewAudit ? ["history"] : []),
+  ];
+  const [activeTab, setActiveTab] = useState<string>(() => availableTabs[0] ?? "categories");
+  const [customerFocusId, setCustomerFocusId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (availableTabs.length && !availableTabs.includes(activeTab)) setActiveTab(availableTabs[0]);
+  }, [activeTab, availableTabs.join()]);
   const [statsLoading, setStatsLoading] = useState(false);
   const [statsData, setStatsData] = useState<
     | null
@@ -253,6 +197,7 @@ export default function Admin() {
       const { data, error } = await supabase
         .from("categories")
         .select("id,name,slug")
+        .is("deleted_at", null)
         .order("name", { ascending: true });
       if (error) throw error;
 
@@ -273,7 +218,11 @@ export default function Admin() {
 
       let query = supabase
         .from("products")
-        .select("id,name,category_id,in_stock,price,image", { count: "exact" })
+        .select(
+          "id,name,description,category_id,in_stock,price,image,material,dimensions,weight,color,care_instructions",
+          { count: "exact" },
+        )
+        .is("deleted_at", null)
         .order("created_at", { ascending: false })
         .range(from, to);
 
@@ -288,19 +237,31 @@ export default function Admin() {
       const rows = (data ?? []) as Array<{
         id: unknown;
         name: string;
+        description: string | null;
         category_id: unknown;
         in_stock: unknown;
         price: unknown;
         image: string | null;
+        material: string | null;
+        dimensions: string | null;
+        weight: string | null;
+        color: string | null;
+        care_instructions: string | null;
       }>;
 
       const items = rows.map((row) => ({
         id: toFiniteNumber(row.id),
         name: row.name,
+        description: row.description ?? null,
         category_id: toNullableFiniteNumber(row.category_id),
         in_stock: Boolean(row.in_stock),
         price: toNullableFiniteNumber(row.price),
         image: row.image ?? null,
+        material: row.material ?? null,
+        dimensions: row.dimensions ?? null,
+        weight: row.weight ?? null,
+        color: row.color ?? null,
+        care_instructions: row.care_instructions ?? null,
       })) as ProductRow[];
 
       const total = count ?? 0;
@@ -322,28 +283,81 @@ export default function Admin() {
   // Requests (Заявки)
   const [requestsPage, setRequestsPage] = useState(1);
   const [requestsSort, setRequestsSort] = useState<"desc" | "asc">("desc");
+  const [requestsExportOpen, setRequestsExportOpen] = useState(false);
+  const [requestsView, setRequestsView] = useState<"table" | "board">("table");
+  const [requestsFilters, setRequestsFilters] = useState<RequestsFilters>(EMPTY_REQUESTS_FILTERS);
+  const [selectedRequestIds, setSelectedRequestIds] = useState<number[]>([]);
+  const [requestsBulkUpdating, setRequestsBulkUpdating] = useState(false);
+
+  // Selection is per page: it would be invisible after paging or filtering
+  useEffect(() => {
+    setSelectedRequestIds([]);
+  }, [requestsPage, requestsSort, requestsFilters, requestsView]);
 
   const requestsQuery = useQuery({
-    queryKey: ["adminRequests", requestsPage, pageSize, requestsSort],
+    queryKey: ["adminRequests", requestsPage, pageSize, requestsSort, requestsFilters],
+    enabled: can.manageRequests,
     queryFn: async () => {
       const from = (requestsPage - 1) * pageSize;
       const to = from + pageSize - 1;
+      const filters = requestsFilters;
 
-      const { data, error, count } = await supabase
+      // Product / category filters go through a second, inner-joined embed of the line items,
+      // so the displayed `request_items` stay complete and the count stays exact.
+      let match = "";
+      if (filters.categoryId !== null) match = ",match:request_items!inner(product_id,products!inner(category_id))";
+      else if (filters.productId !== null) match = ",match:request_items!inner(product_id)";
+
+      let query = supabase
         .from("requests")
-        .select("id,client_name,client_phone,client_message,product_id,status,created_at", { count: "exact" })
+        .select(
+          `id,client_name,client_phone,client_message,product_id,variant_name,status,created_at,assignee_id,follow_up_on,customer_id,request_items(product_id,product_name,variant_name,quantity,position)${match}`,
+          { count: "exact" },
+        )
         .order("created_at", { ascending: requestsSort === "asc" })
         .range(from, to);
+
+      if (filters.overdue) {
+        query = query
+          .lt("follow_up_on", toDateInputValue(new Date()))
+          .filter("status", "isdistinct", "done");
+      }
+      if (filters.status === EMPTY_STATUS_FILTER) query = query.is("status", null);
+      else if (filters.status) query = query.eq("status", filters.status);
+      else query = query.filter("status", "isdistinct", SPAM_STATUS);
+      if (filters.productId !== null) query = query.eq("match.product_id", filters.productId);
+      if (filters.categoryId !== null) query = query.eq("match.products.category_id", filters.categoryId);
+      if (filters.from) query = query.gte("created_at", new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) {
+        const end = new Date(`${filters.to}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        query = query.lt("created_at", end.toISOString());
+      }
+      const searchFilter = toRequestsSearchFilter(filters.search);
+      if (searchFilter) query = query.or(searchFilter);
+
+      const { data, error, count } = await query;
       if (error) throw error;
 
-      const rows = (data ?? []) as Array<{
+      const rows = (data ?? []) as unknown as Array<{
         id: unknown;
         client_name: unknown;
         client_phone: unknown;
         client_message: unknown;
         product_id: unknown;
+        variant_name: unknown;
         status: unknown;
         created_at: unknown;
+        assignee_id: unknown;
+        follow_up_on: unknown;
+        customer_id: unknown;
+        request_items: Array<{
+          product_id: unknown;
+          product_name: string;
+          variant_name: string | null;
+          quantity: unknown;
+          position: unknown;
+        }> | null;
       }>;
 
       // map basic fields
@@ -353,12 +367,31 @@ export default function Admin() {
         client_phone: typeof r.client_phone === "string" ? r.client_phone : null,
         client_message: typeof r.client_message === "string" ? r.client_message : null,
         product_id: toNullableFiniteNumber(r.product_id),
+        variant_name: typeof r.variant_name === "string" ? r.variant_name : null,
         status: typeof r.status === "string" ? r.status : null,
         created_at: typeof r.created_at === "string" ? r.created_at : null,
+        assignee_id: typeof r.assignee_id === "string" ? r.assignee_id : null,
+        follow_up_on: typeof r.follow_up_on === "string" ? r.follow_up_on : null,
+        customer_id: toNullableFiniteNumber(r.customer_id),
+        items: (r.request_items ?? [])
+          .slice()
+          .sort((a, b) => toFiniteNumber(a.position) - toFiniteNumber(b.position))
+          .map((item) => ({
+            product_id: toNullableFiniteNumber(item.product_id),
+            product_name: item.product_name,
+            variant_name: item.variant_name ?? null,
+            quantity: toFiniteNumber(item.quantity) || 1,
+          })),
       }));
 
       // fetch linked products for displayed page
-      const productIds = Array.from(new Set(items.map((i) => i.product_id).filter(Boolean) as number[]));
+      const productIds = Array.from(
+        new Set(
+          items
+            .flatMap((i) => [i.product_id, ...i.items.map((item) => item.product_id)])
+            .filter(Boolean) as number[],
+        ),
+      );
       let productsMap = new Map<number, { id: number; name: string; category_id: number | null; price: number | null; in_stock: boolean; image: string | null }>();
       if (productIds.length > 0) {
         const { data: pdata } = await supabase
@@ -381,6 +414,7 @@ export default function Admin() {
     },
   });
 
+  const requestsItems = requestsQuery.data?.items ?? [];
   const requestsTotalPages = requestsQuery.data?.totalPages;
 
   useEffect(() => {
@@ -400,11 +434,66 @@ export default function Admin() {
     client_phone: string | null;
     client_message: string | null;
     product_id: number | null;
+    variant_name: string | null;
     status: string | null;
     created_at: string | null;
+    assignee_id: string | null;
+    follow_up_on: string | null;
+    customer_id: number | null;
+    items: RequestItem[];
   }>(null);
   const [requestStatusUpdating, setRequestStatusUpdating] = useState<Record<number, boolean>>({});
 
+  // Single path for every status change (table row select and details dialog)
+  const updateRequestStatus = async (id: number, status: string | null) => {
+    if (!can.manageRequests) {
+      toast({ variant: "destructive", title: "Недостаточно прав", description: NO_PERMISSION_MESSAGE });
+      return;
+    }
+
+    setRequestStatusUpdating((prev) => ({ ...prev, [id]: true }));
+    try {
+      const { error } = await supabase.from("requests").update({ status }).eq("id", id);
+      if (error) throw error;
+      setRequestEditing((prev) => (prev && prev.id === id ? { ...prev, status } : prev));
+      queryClient.invalidateQueries({ queryKey: ["adminRequests"] });
+      queryClient.invalidateQueries({ queryKey: ["requestStatusHistory", id] });
+      queryClient.invalidateQueries({ queryKey: ["adminResponseTimes"] });
+      toast({ title: "Статус обновлён" });
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось обновить статус"),
+      });
+    } finally {
+      setRequestStatusUpdating((prev) => ({ ...prev, [id]: false }));
+    }
+  };
+
+  // Flags the selected requests as spam (or takes them back to "new" from the spam list)
+  const updateSelectedRequestsStatus = async (status: string) => {
+    if (!can.manageRequests || selectedRequestIds.length === 0) return;
+    setRequestsBulkUpdating(true);
+    try {
+      const { error } = await supabase.from("requests").update({ status }).in("id", selectedRequestIds);
+      if (error) throw error;
+      toast({ title: `Статус «${getStatusLabel(status)}»: ${selectedRequestIds.length}` });
+      setSelectedRequestIds([]);
+      queryClient.invalidateQueries({ queryKey: ["adminRequests"] });
+      queryClient.invalidateQueries({ queryKey: ["requestStatusHistory"] });
+      queryClient.invalidateQueries({ queryKey: ["adminResponseTimes"] });
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось обновить статус"),
+      });
+    } finally {
+      setRequestsBulkUpdating(false);
+    }
+  };
+
   useEffect(() => {
     if (!categoriesQuery.isError) return;
     if (categoriesQuery.errorUpdatedAt <= lastCategoriesErrorAt.current) return;
@@ -436,7 +525,8 @@ export default function Admin() {
       try {
         const { count: totalCount } = await supabase
           .from("products")
-          .select("id", { head: true, count: "exact" });
+          .select("id", { head: true, count: "exact" })
+          .is("deleted_at", null);
 
         const cats = (categoriesQuery.data ?? []) as CategoryRow[];
 
@@ -446,11 +536,13 @@ export default function Admin() {
               const { count: catTotal } = await supabase
                 .from("products")
                 .select("id", { head: true, count: "exact" })
+                .is("deleted_at", null)
                 .eq("category_id", c.id);
 
               const { count: catInStock } = await supabase
                 .from("products")
                 .select("id", { head: true, count: "exact" })
+                .is("deleted_at", null)
                 .eq("category_id", c.id)
                 .eq("in_stock", true);
 
@@ -501,7 +593,10 @@ export default function Admin() {
     setRequestsStatsAllLoading(true);
     try {
       const statuses = ["new", "processing", "done"];
-      const { count: totalAll } = await supabase.from("requests").select("id", { head: true, count: "exact" });
+      const { count: totalAll } = await supabase
+        .from("requests")
+        .select("id", { head: true, count: "exact" })
+        .filter("status", "isdistinct", SPAM_STATUS);
       const byStatusAll: Record<string, number> = {};
       await Promise.all(
         statuses.map(async (s) => {
@@ -536,6 +631,7 @@ export default function Admin() {
         const { data: monthRows, error: monthError } = await supabase
           .from("requests")
           .select("created_at")
+          .filter("status", "isdistinct", SPAM_STATUS)
           .gte("created_at", start.toISOString())
           .lt("created_at", end.toISOString())
           .order("created_at", { ascending: true });
@@ -574,6 +670,7 @@ export default function Admin() {
         const { count: prevCount } = await supabase
           .from("requests")
           .select("id", { head: true, count: "exact" })
+          .filter("status", "isdistinct", SPAM_STATUS)
           .gte("created_at", prevStart.toISOString())
           .lt("created_at", prevEnd.toISOString());
         prevMonthTotal = prevCount ?? 0;
@@ -615,15 +712,16 @@ export default function Admin() {
   const [productCategoryId, setProductCategoryId] = useState<string>(NO_CATEGORY_VALUE);
   const [productInStock, setProductInStock] = useState(true);
   const [productPrice, setProductPrice] = useState<string>("");
-  const [productImageUrl, setProductImageUrl] = useState<string>("");
-  const [productImageFile, setProductImageFile] = useState<File | null>(null);
-  const [productImagePreviewUrl, setProductImagePreviewUrl] = useState<string>("");
-  const [productImageOriginalBytes, setProductImageOriginalBytes] = useState<number | null>(
-    null,
-  );
-  const [productImageCompressedBytes, setProductImageCompressedBytes] = useState<
-    number | null
-  >(null);
+  const [productDescription, setProductDescription] = useState<string>("");
+  const [productAttributes, setProductAttributes] =
+    useState<ProductAttributesForm>(EMPTY_PRODUCT_ATTRIBUTES);
+  const [productImages, setProductImages] = useState<ProductImageDraft[]>([]);
+  const [productImagesLoading, setProductImagesLoading] = useState(false);
+  // URLs the product had when the dialog was opened, to clean up removed files on save
+  const productImagesInitialRef = useRef<string[]>([]);
+  const productImagesJobRef = useRef(0);
+  const [productVariants, setProductVariants] = useState<ProductVariantDraft[]>([]);
+  const [productImportOpen, setProductImportOpen] = useState(false);
   // Requests statistics state
   const [requestsStatsAllLoading, setRequestsStatsAllLoading] = useState(false);
   const [requestsStatsMonthLoading, setRequestsStatsMonthLoading] = useState(false);
@@ -644,8 +742,6 @@ export default function Admin() {
     prevMonthTotal?: number;
     percentChange?: number | null;
   }>(null);
-  const [productImageCompressing, setProductImageCompressing] = useState(false);
-  const compressJobRef = useRef(0);
 
   const [categoryDeleteId, setCategoryDeleteId] = useState<number | null>(null);
   const [categoryDeletingId, setCategoryDeletingId] = useState<number | null>(null);
@@ -653,39 +749,43 @@ export default function Admin() {
   const [productDeleteId, setProductDeleteId] = useState<number | null>(null);
   const [productDeletingId, setProductDeletingId] = useState<number | null>(null);
 
-  const productImageInputRef = useRef<HTMLInputElement | null>(null);
-
   useEffect(() => {
-    return () => {
-      if (productImagePreviewUrl.startsWith("blob:")) {
-        URL.revokeObjectURL(productImagePreviewUrl);
-      }
-    };
-  }, [productImagePreviewUrl]);
-
-  const uploadProductImage = async (file: File): Promise<string> => {
-    const extRaw = file.name.split(".").pop()?.toLowerCase() ?? "bin";
-    const ext = /^[a-z0-9]+$/.test(extRaw) ? extRaw : "bin";
-
-    const id =
-      typeof crypto !== "undefined" && "randomUUID" in crypto
-        ? crypto.randomUUID()
-        : Math.random().toString(16).slice(2);
-
-    const path = `${Date.now()}-${id}.${ext}`;
-
-    const { error: uploadError } = await supabase.storage
-      .from(PRODUCT_IMAGES_BUCKET)
-      .upload(path, file, {
-        upsert: false,
-        contentType: file.type || undefined,
-      });
-
-    if (uploadError) throw uploadError;
-
-    const { data } = supabase.storage.from(PRODUCT_IMAGES_BUCKET).getPublicUrl(path);
-    if (!data?.publicUrl) throw new Error("Не удалось получить публичную ссылку на изображение");
-    return data.publicUrl;
+    if (productDialogOpen) return;
+    setProductImages((prev) => {
+      revokeImageDrafts(prev);
+      return [];
+    });
+  }, [productDialogOpen]);
+
+  const fetchProductVariants = async (productId: number): Promise<ProductVariantDraft[]> => {
+    const { data, error } = await supabase
+      .from("product_variants")
+      .select("id,name,price,in_stock,image,position")
+      .eq("product_id", productId)
+      .order("position", { ascending: true });
+    if (error) throw error;
+
+    const rows = (data ?? []) as Array<{
+      id: unknown;
+      name: string;
+      price: unknown;
+      in_stock: unknown;
+      image: string | null;
+    }>;
+
+    return rows.map((row) => {
+      const price = toNullableFiniteNumber(row.price);
+      const id = toFiniteNumber(row.id);
+      return {
+        key: `variant-${id}`,
+        id,
+        name: row.name,
+        price: price === null ? "" : String(price),
+        inStock: Boolean(row.in_stock),
+        // Image drafts created from saved URLs use the URL as their key
+        imageKey: row.image ?? null,
+      };
+    });
   };
 
   const openCreateCategory = () => {
@@ -703,6 +803,10 @@ export default function Admin() {
   };
 
   const submitCategory = async () => {
+    if (!can.editCatalog) {
+      toast({ variant: "destructive", title: "Недостаточно прав", description: NO_PERMISSION_MESSAGE });
+      return;
+    }
     const name = categoryName.trim();
     if (!name) {
       toast({ title: "Введите название категории" });
@@ -755,20 +859,28 @@ export default function Admin() {
   };
 
   const deleteCategory = async (id: number) => {
+    if (!can.deleteCatalog) {
+      toast({ variant: "destructive", title: "Недостаточно прав", description: NO_PERMISSION_MESSAGE });
+      return;
+    }
     setCategoryDeletingId(id);
     try {
-      const { error } = await supabase.from("categories").delete().eq("id", id);
+      const { error } = await supabase
+        .from("categories")
+        .update({ deleted_at: new Date().toISOString() })
+        .eq("id", id);
       if (error) throw error;
 
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ["adminCategories"] }),
         queryClient.invalidateQueries({ queryKey: ["adminProducts"] }),
+        queryClient.invalidateQueries({ queryKey: ["adminTrash"] }),
         queryClient.invalidateQueries({ queryKey: ["categories"] }),
         queryClient.invalidateQueries({ queryKey: ["products"] }),
         queryClient.invalidateQueries({ queryKey: ["productsByCategory"] }),
       ]);
 
-      toast({ title: "Категория удалена" });
+      toast({ title: "Категория перемещена в корзину" });
     } catch (error: unknown) {
       toast({
         variant: "destructive",
@@ -787,12 +899,13 @@ export default function Admin() {
     setProductCategoryId(NO_CATEGORY_VALUE);
     setProductInStock(true);
     setProductPrice("");
-    setProductImageUrl("");
-    setProductImageFile(null);
-    setProductImagePreviewUrl("");
-    setProductImageOriginalBytes(null);
-    setProductImageCompressedBytes(null);
-    setProductImageCompressing(false);
+    setProductDescription("");
+    setProductAttributes(EMPTY_PRODUCT_ATTRIBUTES);
+    productImagesJobRef.current++;
+    productImagesInitialRef.current = [];
+    setProductImages([]);
+    setProductImagesLoading(false);
+    setProductVariants([]);
     setProductDialogOpen(true);
   };
 
@@ -804,16 +917,47 @@ export default function Admin() {
     );
     setProductInStock(Boolean(p.in_stock));
     setProductPrice(p.price === null ? "" : String(p.price));
-    setProductImageUrl(p.image ?? "");
-    setProductImageFile(null);
-    setProductImagePreviewUrl("");
-    setProductImageOriginalBytes(null);
-    setProductImageCompressedBytes(null);
-    setProductImageCompressing(false);
+    setProductDescription(p.description ?? "");
+    setProductAttributes({
+      material: p.material ?? "",
+      dimensions: p.dimensions ?? "",
+      weight: p.weight ?? "",
+      color: p.color ?? "",
+      care_instructions: p.care_instructions ?? "",
+    });
+    productImagesInitialRef.current = p.image ? [p.image] : [];
+    setProductImages(p.image ? [createImageDraftFromUrl(p.image)] : []);
+    setProductVariants([]);
     setProductDialogOpen(true);
+
+    const jobId = ++productImagesJobRef.current;
+    setProductImagesLoading(true);
+    Promise.all([fetchProductImageUrls(p.id, p.image), fetchProductVariants(p.id)])
+      .then(([urls, variants]) => {
+        if (productImagesJobRef.current !== jobId) return;
+        productImagesInitialRef.current = urls;
+        setProductImages(urls.map(createImageDraftFromUrl));
+        setProductVariants(variants);
+      })
+      .catch((error: unknown) => {
+        if (productImagesJobRef.current !== jobId) return;
+        toast({
+          variant: "destructive",
+          title: "Ошибка",
+          description: getDbErrorMessage(error, "Не удалось загрузить фото и варианты товара"),
+        });
+      })
+      .finally(() => {
+        if (productImagesJobRef.current !== jobId) return;
+        setProductImagesLoading(false);
+      });
   };
 
   const submitProduct = async () => {
+    if (!can.editCatalog) {
+      toast({ variant: "destructive", title: "Недостаточно прав", description: NO_PERMISSION_MESSAGE });
+      return;
+    }
     const name = productName.trim();
     if (!name) {
       toast({ title: "Введите название товара" });
@@ -839,36 +983,101 @@ export default function Admin() {
       return;
     }
 
+    if (productImagesLoading || productImages.some((img) => img.compressing)) {
+      toast({ title: "Дождитесь загрузки фото" });
+      return;
+    }
+
+    if (productVariants.some((v) => !v.name.trim())) {
+      toast({ title: "Укажите название для каждого варианта" });
+      return;
+    }
+
+    const variantPrices = productVariants.map((v) =>
+      v.price.trim().length ? Number(v.price.replace(",", ".")) : null,
+    );
+    if (variantPrices.some((p) => p !== null && Number.isNaN(p))) {
+      toast({ title: "Цена варианта должна быть числом" });
+      return;
+    }
+
     setProductSaving(true);
     try {
-      const imageUrl = productImageFile
-        ? await uploadProductImage(productImageFile)
-        : productImageUrl.trim().length
-          ? productImageUrl.trim()
-          : null;
+      const imageUrls: string[] = [];
+      const imageUrlByKey = new Map<string, string>();
+      for (const img of productImages) {
+        const url = img.file ? await uploadProductImage(img.file) : img.url;
+        if (!url) continue;
+        imageUrls.push(url);
+        imageUrlByKey.set(img.key, url);
+      }
+
+      const optionalText = (value: string) => (value.trim().length ? value.trim() : null);
 
       const payload = {
         name,
+        description: optionalText(productDescription),
         category_id,
         in_stock: productInStock,
         price,
-        image: imageUrl,
+        image: imageUrls[0] ?? null,
+        material: optionalText(productAttributes.material),
+        dimensions: optionalText(productAttributes.dimensions),
+        weight: optionalText(productAttributes.weight),
+        color: optionalText(productAttributes.color),
+        care_instructions: optionalText(productAttributes.care_instructions),
       };
 
+      let productId: number;
       if (productEditing) {
         const { error } = await supabase
           .from("products")
           .update(payload)
           .eq("id", productEditing.id);
         if (error) throw error;
+        productId = productEditing.id;
       } else {
-        const { error } = await supabase.from("products").insert(payload);
+        const { data, error } = await supabase
+          .from("products")
+          .insert(payload)
+          .select("id")
+          .single();
         if (error) throw error;
+        productId = toFiniteNumber((data as { id: unknown }).id);
+      }
+
+      // Gallery and variants are replaced in one transaction; `products.image` above always
+      // mirrors the first image.
+      const { error: mediaError } = await supabase.rpc("save_product_media", {
+        p_product_id: productId,
+        p_images: imageUrls,
+        p_variants: productVariants.map((v, position) => ({
+          id: v.id,
+          name: v.name.trim(),
+          price: variantPrices[position],
+          in_stock: v.inStock,
+          image: v.imageKey ? imageUrlByKey.get(v.imageKey) ?? null : null,
+        })),
+      });
+      if (mediaError) throw mediaError;
+
+      const removedUrls = productImagesInitialRef.current.filter((url) => !imageUrls.includes(url));
+      const storageError = await removeStorageImages(removedUrls);
+      if (storageError) {
+        toast({
+          variant: "destructive",
+          title: "Ошибка",
+          description: getDbErrorMessage(
+            storageError,
+            "Товар сохранён, но не удалось удалить старые фото из хранилища",
+          ),
+        });
       }
 
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ["adminProducts"] }),
         queryClient.invalidateQueries({ queryKey: ["products"] }),
+        queryClient.invalidateQueries({ queryKey: ["product"] }),
         queryClient.invalidateQueries({ queryKey: ["productsByCategory"] }),
       ]);
 
@@ -886,47 +1095,28 @@ export default function Admin() {
   };
 
   const deleteProduct = async (id: number) => {
+    if (!can.deleteCatalog) {
+      toast({ variant: "destructive", title: "Недостаточно прав", description: NO_PERMISSION_MESSAGE });
+      return;
+    }
     setProductDeletingId(id);
     try {
-      const imageFromCache = (productsQuery.data?.items ?? []).find((p) => p.id === id)?.image ?? null;
-      const imageUrl = imageFromCache
-        ? imageFromCache
-        : (
-            await supabase
-              .from("products")
-              .select("image")
-              .eq("id", id)
-              .maybeSingle()
-          ).data?.image ?? null;
-
-      const { error } = await supabase.from("products").delete().eq("id", id);
+      // Soft delete: the product goes to the trash, photos stay in storage until it is purged
+      const { error } = await supabase
+        .from("products")
+        .update({ deleted_at: new Date().toISOString() })
+        .eq("id", id);
       if (error) throw error;
 
-      const storagePath = imageUrl ? getStoragePathFromPublicUrl(imageUrl) : null;
-      if (storagePath) {
-        const { error: storageError } = await supabase.storage
-          .from(PRODUCT_IMAGES_BUCKET)
-          .remove([storagePath]);
-
-        if (storageError) {
-          toast({
-            variant: "destructive",
-            title: "Ошибка",
-            description: getDbErrorMessage(
-              storageError,
-              "Товар удалён, но не удалось удалить фото из хранилища",
-            ),
-          });
-        }
-      }
-
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ["adminProducts"] }),
+        queryClient.invalidateQueries({ queryKey: ["adminTrash"] }),
         queryClient.invalidateQueries({ queryKey: ["products"] }),
+        queryClient.invalidateQueries({ queryKey: ["product"] }),
         queryClient.invalidateQueries({ queryKey: ["productsByCategory"] }),
       ]);
 
-      toast({ title: "Товар удалён" });
+      toast({ title: "Товар перемещён в корзину" });
     } catch (error: unknown) {
       toast({
         variant: "destructive",
@@ -945,7 +1135,7 @@ export default function Admin() {
       const [cats, prods, reqs] = await Promise.all([
         categoriesQuery.refetch(),
         productsQuery.refetch(),
-        requestsQuery.refetch(),
+        can.manageRequests ? requestsQuery.refetch() : Promise.resolve({ error: null }),
       ]);
 
       const errors: unknown[] = [];
@@ -971,6 +1161,22 @@ export default function Admin() {
     }
   };
 
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      setSigningOut(false);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: getDbErrorMessage(error, "Не удалось выйти"),
+      });
+      return;
+    }
+    // Don't leave admin data in the cache for the next visitor of this browser
+    queryClient.clear();
+  };
+
   const isInitialLoading = categoriesQuery.isLoading || productsQuery.isLoading || requestsQuery.isLoading;
   const isBusy = isInitialLoading || refreshing;
 
@@ -995,24 +1201,66 @@ export default function Admin() {
             Управляйте категориями и товарами. Изменения сразу отражаются на
             главной странице и в каталоге.
           </p>
+          <div className="mt-4 flex items-center gap-3 text-xs text-muted-foreground">
+            {user?.email ? <span>{user.email}</span> : null}
+            {role ? <span className="uppercase tracking-widest">{ADMIN_ROLE_LABELS[role]}</span> : null}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleSignOut}
+              disabled={signingOut}
+              className="h-auto px-0 py-0 gap-1 underline underline-offset-4"
+            >
+              {signingOut ? <Loader2 className="h-3 w-3 animate-spin" /> : <LogOut className="h-3 w-3" />}
+              Выйти
+            </Button>
+          </div>
         </motion.div>
 
         <div className="mt-10">
           <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v)} className="w-full">
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
               <TabsList className="w-full sm:w-auto overflow-x-auto justify-start sm:justify-center flex-nowrap gap-1">
-                <TabsTrigger value="categories" className="flex-1 sm:flex-none">
-                  Категории
-                </TabsTrigger>
-                <TabsTrigger value="products" className="flex-1 sm:flex-none">
-                  Товары
-                </TabsTrigger>
-                <TabsTrigger value="requests" className="flex-1 sm:flex-none">
-                  Заявки
-                </TabsTrigger>
-                <TabsTrigger value="stats" className="flex-1 sm:flex-none">
-                  Статистика
-                </TabsTrigger>
+                {can.editCatalog ? (
+                  <>
+                    <TabsTrigger value="categories" className="flex-1 sm:flex-none">
+                      Категории
+                    </TabsTrigger>
+                    <TabsTrigger value="products" className="flex-1 sm:flex-none">
+                      Товары
+                    </TabsTrigger>
+                  </>
+                ) : null}
+                {can.manageRequests ? (
+                  <TabsTrigger value="requests" className="flex-1 sm:flex-none">
+                    Заявки
+                  </TabsTrigger>
+                ) : null}
+                {can.manageRequests ? (
+                  <TabsTrigger value="customers" className="flex-1 sm:flex-none">
+                    Клиенты
+                  </TabsTrigger>
+                ) : null}
+                {can.manageRequests ? (
+                  <TabsTrigger value="subscribers" className="flex-1 sm:flex-none">
+                    Подписчики
+                  </TabsTrigger>
+                ) : null}
+                {can.viewStats ? (
+                  <TabsTrigger value="stats" className="flex-1 sm:flex-none">
+                    Статистика
+                  </TabsTrigger>
+                ) : null}
+                {can.deleteCatalog ? (
+                  <TabsTrigger value="trash" className="flex-1 sm:flex-none">
+                    Корзина
+                  </TabsTrigger>
+                ) : null}
+                {can.viewAudit ? (
+                  <TabsTrigger value="history" className="flex-1 sm:flex-none">
+                    История
+                  </TabsTrigger>
+                ) : null}
               </TabsList>
 
               <div className="flex justify-end gap-2 w-full sm:w-auto">
@@ -1039,10 +1287,13 @@ export default function Admin() {
                     Название и slug используются для фильтрации на витрине.
                   </p>
                 </div>
-                <Button onClick={openCreateCategory} className="gap-2 w-full sm:w-auto">
-                  <Plus className="h-4 w-4" />
-                  Добавить
-                </Button>
+                <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                  <CatalogExportMenu kind="categories" />
+                  <Button onClick={openCreateCategory} className="gap-2 w-full sm:w-auto">
+                    <Plus className="h-4 w-4" />
+                    Добавить
+                  </Button>
+                </div>
               </div>
 
               <motion.div
@@ -1100,57 +1351,59 @@ export default function Admin() {
                                   Редактировать
                                 </Button>
 
-                                <AlertDialog
-                                  open={categoryDeleteId === cat.id}
-                                  onOpenChange={(open) => {
-                                    if (!open && categoryDeletingId === cat.id) return;
-                                    setCategoryDeleteId(open ? cat.id : null);
-                                  }}
-                                >
-                                  <AlertDialogTrigger asChild>
-                                    <Button
-                                      variant="destructive"
-                                      size="sm"
-                                      className="gap-2"
-                                    >
-                                      <Trash2 className="h-4 w-4" />
-                                      Удалить
-                                    </Button>
-                                  </AlertDialogTrigger>
-                                  <AlertDialogContent>
-                                    <AlertDialogHeader>
-                                      <AlertDialogTitle>
-                                        Удалить категорию?
-                                      </AlertDialogTitle>
-                                      <AlertDialogDescription>
-                                        Категория «{cat.name}» будет удалена.
-                                        Товары могут остаться без категории.
-                                      </AlertDialogDescription>
-                                    </AlertDialogHeader>
-                                    <AlertDialogFooter>
-                                      <AlertDialogCancel
-                                        disabled={categoryDeletingId === cat.id}
-                                      >
-                                        Отмена
-                                      </AlertDialogCancel>
-                                      <AlertDialogAction
-                                        onClick={(e) => {
-                                          e.preventDefault();
-                                          deleteCategory(cat.id);
-                                        }}
-                                        disabled={categoryDeletingId === cat.id}
+                                {can.deleteCatalog ? (
+                                  <AlertDialog
+                                    open={categoryDeleteId === cat.id}
+                                    onOpenChange={(open) => {
+                                      if (!open && categoryDeletingId === cat.id) return;
+                                      setCategoryDeleteId(open ? cat.id : null);
+                                    }}
+                                  >
+                                    <AlertDialogTrigger asChild>
+                                      <Button
+                                        variant="destructive"
+                                        size="sm"
                                         className="gap-2"
                                       >
-                                        {categoryDeletingId === cat.id ? (
-                                          <Loader2 className="h-4 w-4 animate-spin" />
-                                        ) : (
-                                          <Trash2 className="h-4 w-4" />
-                                        )}
+                                        <Trash2 className="h-4 w-4" />
                                         Удалить
-                                      </AlertDialogAction>
-                                    </AlertDialogFooter>
-                                  </AlertDialogContent>
-                                </AlertDialog>
+                                      </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                      <AlertDialogHeader>
+                                        <AlertDialogTitle>
+                                          Удалить категорию?
+                                        </AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                          Категория «{cat.name}» и её товары будут перемещены
+                                          в корзину и скрыты с витрины. Их можно восстановить.
+                                        </AlertDialogDescription>
+                                      </AlertDialogHeader>
+                                      <AlertDialogFooter>
+                                        <AlertDialogCancel
+                                          disabled={categoryDeletingId === cat.id}
+                                        >
+                                          Отмена
+                                        </AlertDialogCancel>
+                                        <AlertDialogAction
+                                          onClick={(e) => {
+                                            e.preventDefault();
+                                            deleteCategory(cat.id);
+                                          }}
+                                          disabled={categoryDeletingId === cat.id}
+                                          className="gap-2"
+                                        >
+                                          {categoryDeletingId === cat.id ? (
+                                            <Loader2 className="h-4 w-4 animate-spin" />
+                                          ) : (
+                                            <Trash2 className="h-4 w-4" />
+                                          )}
+                                          Удалить
+                                        </AlertDialogAction>
+                                      </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                  </AlertDialog>
+                                ) : null}
                               </div>
                             </TableCell>
                           </TableRow>
@@ -1236,10 +1489,26 @@ export default function Admin() {
                     </Button>
                   </div>
 
-                  <Button onClick={openCreateProduct} className="gap-2 w-full sm:w-auto">
-                    <Plus className="h-4 w-4" />
-                    Добавить
-                  </Button>
+                  <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                    <CatalogExportMenu
+                      kind="products"
+                      category={
+                        filterCategory ? categoriesById.get(Number(filterCategory)) ?? null : null
+                      }
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => setProductImportOpen(true)}
+                      className="gap-2 w-full sm:w-auto"
+                    >
+                      <FileUp className="h-4 w-4" />
+                      Импорт CSV
+                    </Button>
+                    <Button onClick={openCreateProduct} className="gap-2 w-full sm:w-auto">
+                      <Plus className="h-4 w-4" />
+                      Добавить
+                    </Button>
+                  </div>
                 </div>
               </div>
 
@@ -1335,56 +1604,59 @@ export default function Admin() {
                                   Редактировать
                                 </Button>
 
-                                <AlertDialog
-                                  open={productDeleteId === p.id}
-                                  onOpenChange={(open) => {
-                                    if (!open && productDeletingId === p.id) return;
-                                    setProductDeleteId(open ? p.id : null);
-                                  }}
-                                >
-                                  <AlertDialogTrigger asChild>
-                                    <Button
-                                      variant="destructive"
-                                      size="sm"
-                                      className="gap-2"
-                                    >
-                                      <Trash2 className="h-4 w-4" />
-                                      Удалить
-                                    </Button>
-                                  </AlertDialogTrigger>
-                                  <AlertDialogContent>
-                                    <AlertDialogHeader>
-                                      <AlertDialogTitle>
-                                        Удалить товар?
-                                      </AlertDialogTitle>
-                                      <AlertDialogDescription>
-                                        Товар «{p.name}» будет удалён.
-                                      </AlertDialogDescription>
-                                    </AlertDialogHeader>
-                                    <AlertDialogFooter>
-                                      <AlertDialogCancel
-                                        disabled={productDeletingId === p.id}
-                                      >
-                                        Отмена
-                                      </AlertDialogCancel>
-                                      <AlertDialogAction
-                                        onClick={(e) => {
-                                          e.preventDefault();
-                                          deleteProduct(p.id);
-                                        }}
-                                        disabled={productDeletingId === p.id}
+                                {can.deleteCatalog ? (
+                                  <AlertDialog
+                                    open={productDeleteId === p.id}
+                                    onOpenChange={(open) => {
+                                      if (!open && productDeletingId === p.id) return;
+                                      setProductDeleteId(open ? p.id : null);
+                                    }}
+                                  >
+                                    <AlertDialogTrigger asChild>
+                                      <Button
+                                        variant="destructive"
+                                        size="sm"
                                         className="gap-2"
                                       >
-                                        {productDeletingId === p.id ? (
-                                          <Loader2 className="h-4 w-4 animate-spin" />
-                                        ) : (
-                                          <Trash2 className="h-4 w-4" />
-                                        )}
+                                        <Trash2 className="h-4 w-4" />
                                         Удалить
-                                      </AlertDialogAction>
-                                    </AlertDialogFooter>
-                                  </AlertDialogContent>
-                                </AlertDialog>
+                                      </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                      <AlertDialogHeader>
+                                        <AlertDialogTitle>
+                                          Удалить товар?
+                                        </AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                          Товар «{p.name}» будет перемещён в корзину
+                                          и скрыт с витрины. Его можно восстановить.
+                                        </AlertDialogDescription>
+                                      </AlertDialogHeader>
+                                      <AlertDialogFooter>
+                                        <AlertDialogCancel
+                                          disabled={productDeletingId === p.id}
+                                        >
+                                          Отмена
+                                        </AlertDialogCancel>
+                                        <AlertDialogAction
+                                          onClick={(e) => {
+                                            e.preventDefault();
+                                            deleteProduct(p.id);
+                                          }}
+                                          disabled={productDeletingId === p.id}
+                                          className="gap-2"
+                                        >
+                                          {productDeletingId === p.id ? (
+                                            <Loader2 className="h-4 w-4 animate-spin" />
+                                          ) : (
+                                            <Trash2 className="h-4 w-4" />
+                                          )}
+                                          Удалить
+                                        </AlertDialogAction>
+                                      </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                  </AlertDialog>
+                                ) : null}
                               </div>
                             </TableCell>
                           </TableRow>
@@ -1423,6 +1695,8 @@ export default function Admin() {
                   </>
                 )}
               </motion.div>
+
+              <ProductImportDialog open={productImportOpen} onOpenChange={setProductImportOpen} />
             </TabsContent>
 
             <TabsContent value="requests">
@@ -1431,7 +1705,16 @@ export default function Admin() {
                   <h2 className="font-serif text-2xl">Заявки</h2>
                   <p className="text-sm text-muted-foreground">Список входящих заявок. Новые — сверху.</p>
                 </div>
-                <div className="flex items-center gap-3 w-full sm:w-auto">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3 w-full sm:w-auto">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRequestsView((v) => (v === "table" ? "board" : "table"))}
+                    className="gap-2 w-full sm:w-auto"
+                  >
+                    {requestsView === "table" ? <LayoutGrid className="h-4 w-4" /> : <List className="h-4 w-4" />}
+                    {requestsView === "table" ? "Доска" : "Таблица"}
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -1443,9 +1726,27 @@ export default function Admin() {
                   >
                     Сортировать: {requestsSort === "desc" ? "Новые сверху" : "Старые сверху"}
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRequestsExportOpen(true)}
+                    className="gap-2 w-full sm:w-auto"
+                  >
+                    <Download className="h-4 w-4" />
+                    Экспорт
+                  </Button>
                 </div>
               </div>
 
+              <RequestsFiltersBar
+                filters={requestsFilters}
+                onChange={(next) => {
+                  setRequestsFilters(next);
+                  setRequestsPage(1);
+                }}
+                categories={categoriesQuery.data ?? []}
+              />
+
               <motion.div
                 initial={{ opacity: 0, y: 8 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -1458,12 +1759,69 @@ export default function Admin() {
                   </div>
                 ) : requestsQuery.isError ? (
                   <div className="p-6 text-sm text-muted-foreground">Не удалось загрузить заявки.</div>
+                ) : requestsView === "board" ? (
+                  <RequestsBoard
+                    requests={requestsQuery.data?.items ?? []}
+                    productsMap={requestsQuery.data?.productsMap}
+                    updating={requestStatusUpdating}
+                    onStatusChange={updateRequestStatus}
+                    onOpen={(r) => {
+                      setRequestDialogOpen(true);
+                      setRequestEditing(r);
+                    }}
+                  />
                 ) : (
                   <>
+                    {selectedRequestIds.length ? (
+                      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 border-b border-border">
+                        <span className="text-sm">Выбрано: {selectedRequestIds.length}</span>
+                        <div className="flex flex-col sm:flex-row gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => setSelectedRequestIds([])}>
+                            Снять выделение
+                          </Button>
+                          {requestsFilters.status === SPAM_STATUS ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={requestsBulkUpdating}
+                              onClick={() => updateSelectedRequestsStatus("new")}
+                            >
+                              Не спам
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={requestsBulkUpdating}
+                              onClick={() => updateSelectedRequestsStatus(SPAM_STATUS)}
+                              className="gap-2"
+                            >
+                              {requestsBulkUpdating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+                              В спам
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ) : null}
                     <div className="w-full overflow-x-auto">
                       <Table className="min-w-[980px]">
                       <TableHeader>
                         <TableRow>
+                          <TableHead className="w-10">
+                            <Checkbox
+                              aria-label="Выбрать все на странице"
+                              checked={
+                                requestsItems.length > 0 && selectedRequestIds.length === requestsItems.length
+                                  ? true
+                                  : selectedRequestIds.length
+                                    ? "indeterminate"
+                                    : false
+                              }
+                              onCheckedChange={(checked) =>
+                                setSelectedRequestIds(checked === true ? requestsItems.map((r) => r.id) : [])
+                              }
+                            />
+                          </TableHead>
                           <TableHead>Клиент</TableHead>
                           <TableHead>Телефон</TableHead>
                           <TableHead>Сообщение</TableHead>
@@ -1473,13 +1831,15 @@ export default function Admin() {
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {(requestsQuery.data?.items ?? []).length === 0 ? (
+                        {requestsItems.length === 0 ? (
                           <TableRow>
-                            <TableCell colSpan={6} className="text-sm text-muted-foreground py-10 text-center">Заявок пока нет.</TableCell>
+                            <TableCell colSpan={7} className="text-sm text-muted-foreground py-10 text-center">
+                              {hasRequestsFilters(requestsFilters) ? "Ничего не найдено." : "Заявок пока нет."}
+                            </TableCell>
                           </TableRow>
                         ) : null}
 
-                        {(requestsQuery.data?.items ?? []).map((r) => {
+                        {requestsItems.map((r) => {
                           const prod = r.product_id ? requestsQuery.data?.productsMap?.get(r.product_id) : undefined;
                           const catName = prod?.category_id ? categoriesById.get(prod.category_id)?.name : "—";
                           const prodName = prod?.name ?? "—";
@@ -1489,30 +1849,43 @@ export default function Admin() {
                               setRequestDialogOpen(true);
                               setRequestEditing(r);
                             }}>
+                              <TableCell onClick={(e) => e.stopPropagation()}>
+                                <Checkbox
+                                  aria-label="Выбрать заявку"
+                                  checked={selectedRequestIds.includes(r.id)}
+                                  onCheckedChange={(checked) =>
+                                    setSelectedRequestIds((prev) =>
+                                      checked === true ? [...prev, r.id] : prev.filter((id) => id !== r.id),
+                                    )
+                                  }
+                                />
+                              </TableCell>
                               <TableCell className="font-medium">{r.client_name ?? "—"}</TableCell>
-                              <TableCell className="text-muted-foreground">{r.client_phone ?? "—"}</TableCell>
+                              <TableCell className="text-muted-foreground">{formatPhone(r.client_phone)}</TableCell>
                               <TableCell className="text-muted-foreground">{(r.client_message ?? "").length > 60 ? `${(r.client_message ?? "").slice(0,60)}…` : r.client_message}</TableCell>
-                              <TableCell className="text-muted-foreground">{prodName} <div className="text-xs text-muted-foreground">{catName}</div></TableCell>
-                              <TableCell className="text-muted-foreground text-sm">{formatDateTime(r.created_at)}</TableCell>
+                              <TableCell className="text-muted-foreground">
+                                {prodName}{r.variant_name ? ` · ${r.variant_name}` : ""}
+                                {r.items.length > 1 ? (
+                                  <span className="ml-1 text-xs text-foreground">
+                                    и ещё {r.items.length - 1} ({r.items.reduce((sum, item) => sum + item.quantity, 0)} шт.)
+                                  </span>
+                                ) : (r.items[0]?.quantity ?? 1) > 1 ? (
+                                  <span className="ml-1 text-xs text-foreground">× {r.items[0].quantity}</span>
+                                ) : null}
+                                <div className="text-xs text-muted-foreground">{catName}</div>
+                              </TableCell>
+                              <TableCell className="text-muted-foreground text-sm">
+                                {formatDateTime(r.created_at)}
+                                {r.follow_up_on ? (
+                                  <div className={isFollowUpOverdue(r.follow_up_on, r.status) ? "text-xs text-destructive" : "text-xs"}>
+                                    Перезвонить: {formatDate(r.follow_up_on)}
+                                  </div>
+                                ) : null}
+                              </TableCell>
                               <TableCell>
                                 <div onClick={(e) => e.stopPropagation()}>
-                                  <Select value={String(r.status ?? EMPTY_SELECT_VALUE)} onValueChange={async (val) => {
-                                    const newStatus = val === EMPTY_SELECT_VALUE ? null : (val || null);
-                                    setRequestStatusUpdating((prev) => ({ ...prev, [r.id]: true }));
-                                    try {
-                                      const { error } = await supabase.from("requests").update({ status: newStatus }).eq("id", r.id);
-                                      if (error) throw error;
-                                      queryClient.invalidateQueries({ queryKey: ["adminRequests"] });
-                                      toast({ title: "Статус обновлён" });
-                                    } catch (error: unknown) {
-                                      toast({
-                                        variant: "destructive",
-                                        title: "Ошибка",
-                                        description: getDbErrorMessage(error, "Не удалось обновить статус"),
-                                      });
-                                    } finally {
-                                      setRequestStatusUpdating((prev) => ({ ...prev, [r.id]: false }));
-                                    }
+                                  <Select value={String(r.status ?? EMPTY_SELECT_VALUE)} onValueChange={(val) => {
+                                    updateRequestStatus(r.id, val === EMPTY_SELECT_VALUE ? null : (val || null));
                                   }}>
                                     <SelectTrigger disabled={isUpdating} className="min-w-[130px]">
                                       <div className="flex items-center justify-between w-full gap-2">
@@ -1524,6 +1897,7 @@ export default function Admin() {
                                       <SelectItem value="new">{getStatusLabel("new")}</SelectItem>
                                       <SelectItem value="processing">{getStatusLabel("processing")}</SelectItem>
                                       <SelectItem value="done">{getStatusLabel("done")}</SelectItem>
+                                      <SelectItem value={SPAM_STATUS}>{getStatusLabel(SPAM_STATUS)}</SelectItem>
                                       <SelectItem value={EMPTY_SELECT_VALUE}>—</SelectItem>
                                     </SelectContent>
                                   </Select>
@@ -1564,8 +1938,22 @@ export default function Admin() {
                   </>
                 )}
               </motion.div>
+
+              <RequestsExportDialog open={requestsExportOpen} onOpenChange={setRequestsExportOpen} />
             </TabsContent>
 
+            {can.manageRequests ? (
+              <TabsContent value="customers">
+                <CustomersTab focusCustomerId={customerFocusId} onFocusHandled={() => setCustomerFocusId(null)} />
+              </TabsContent>
+            ) : null}
+
+            {can.manageRequests ? (
+              <TabsContent value="subscribers">
+                <SubscribersTab />
+              </TabsContent>
+            ) : null}
+
             <TabsContent value="stats">
               <div className="mt-6">
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
@@ -1747,10 +2135,24 @@ export default function Admin() {
                       </div>
                     </div>
                   </div>
+
+                  <RequestResponseTimes month={selectedMonth} />
                 </motion.div>
               </div>
             </TabsContent>
 
+            {can.deleteCatalog ? (
+              <TabsContent value="trash">
+                <TrashTab />
+              </TabsContent>
+            ) : null}
+
+            {can.viewAudit ? (
+              <TabsContent value="history">
+                <AuditLogTab />
+              </TabsContent>
+            ) : null}
+
             {/* Request details modal (opened when clicking a request row) */}
             <Dialog open={requestDialogOpen} onOpenChange={(v) => { if(!v) { setRequestDialogOpen(false); setRequestEditing(null); } else setRequestDialogOpen(v); }}>
               <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-3xl h-[90dvh] sm:h-auto max-h-[90dvh] overflow-y-auto">
@@ -1787,6 +2189,9 @@ export default function Admin() {
                               return p ? (
                                 <div>
                                   <div className="text-lg font-semibold">{p.name}</div>
+                                  {requestEditing.variant_name ? (
+                                    <div className="text-sm text-muted-foreground">Вариант: {requestEditing.variant_name}</div>
+                                  ) : null}
                                   <div className="text-sm text-muted-foreground">Категория: {cat}</div>
                                   <div className="text-sm text-muted-foreground">Цена: {formatMoney(p.price)}</div>
                                   <div className="text-sm text-muted-foreground">Наличие: {p.in_stock ? "В наличии" : "Нет"}</div>
@@ -1807,10 +2212,26 @@ export default function Admin() {
                           </div>
                           <div className="rounded-lg border border-border p-3">
                             <div className="text-xs uppercase tracking-widest text-muted-foreground">Телефон</div>
-                            <div className="mt-1 font-medium">{requestEditing.client_phone ?? "—"}</div>
+                            <div className="mt-1 font-medium">{formatPhone(requestEditing.client_phone)}</div>
                           </div>
                         </div>
 
+                        {requestEditing.customer_id !== null ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-auto px-0 py-0 underline underline-offset-4"
+                            onClick={() => {
+                              setCustomerFocusId(requestEditing.customer_id);
+                              setActiveTab("customers");
+                              setRequestDialogOpen(false);
+                              setRequestEditing(null);
+                            }}
+                          >
+                            Все заявки клиента
+                          </Button>
+                        ) : null}
+
                         <div className="rounded-lg border border-border p-3">
                           <div className="text-xs uppercase tracking-widest text-muted-foreground">Дата</div>
                           <div className="mt-1 text-sm text-muted-foreground">{formatDateTime(requestEditing.created_at)}</div>
@@ -1818,6 +2239,37 @@ export default function Admin() {
                       </div>
                     </div>
 
+                    {requestEditing.items.length > 1 || (requestEditing.items[0]?.quantity ?? 1) > 1 ? (
+                      <div className="rounded-lg border border-border p-4 space-y-3">
+                        <div className="text-xs uppercase tracking-widest text-muted-foreground">
+                          Состав заявки ({requestEditing.items.reduce((sum, item) => sum + item.quantity, 0)} шт.)
+                        </div>
+                        <ul className="space-y-3">
+                          {requestEditing.items.map((item, index) => {
+                            const p = item.product_id ? requestsQuery.data?.productsMap?.get(item.product_id) : undefined;
+                            return (
+                              <li key={index} className="flex items-center gap-3">
+                                <div className="h-12 w-12 shrink-0 rounded-md overflow-hidden bg-secondary/30">
+                                  {p?.image ? <img src={p.image} alt={item.product_name} className="h-full w-full object-cover" /> : null}
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                  <div className="text-sm font-medium truncate">
+                                    {item.product_name}
+                                    {!p ? <span className="ml-1 text-xs text-muted-foreground">(товар удалён)</span> : null}
+                                  </div>
+                                  <div className="text-xs text-muted-foreground">
+                                    {item.variant_name ? `${item.variant_name} · ` : ""}
+                                    {p ? formatMoney(p.price) : "—"}
+                                  </div>
+                                </div>
+                                <div className="text-sm tabular-nums">× {item.quantity}</div>
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      </div>
+                    ) : null}
+
                     <div className="rounded-lg border border-border p-4 bg-background/60">
                       <div className="text-xs uppercase tracking-widest text-muted-foreground">Сообщение</div>
                       <div className="mt-2 text-sm text-foreground whitespace-pre-wrap">
@@ -1827,24 +2279,8 @@ export default function Admin() {
 
                     <div className="space-y-2">
                       <label className="text-xs uppercase tracking-widest text-muted-foreground">Статус</label>
-                      <Select value={String(requestEditing.status ?? EMPTY_SELECT_VALUE)} onValueChange={async (val) => {
-                        const newStatus = val === EMPTY_SELECT_VALUE ? null : (val || null);
-                        setRequestStatusUpdating((prev) => ({ ...prev, [requestEditing.id]: true }));
-                        try {
-                          const { error } = await supabase.from("requests").update({ status: newStatus }).eq("id", requestEditing.id);
-                          if (error) throw error;
-                          setRequestEditing((prev) => prev ? { ...prev, status: newStatus } : prev);
-                          queryClient.invalidateQueries({ queryKey: ["adminRequests"] });
-                          toast({ title: "Статус обновлён" });
-                        } catch (error: unknown) {
-                          toast({
-                            variant: "destructive",
-                            title: "Ошибка",
-                            description: getDbErrorMessage(error, "Не удалось обновить статус"),
-                          });
-                        } finally {
-                          setRequestStatusUpdating((prev) => ({ ...prev, [requestEditing.id]: false }));
-                        }
+                      <Select value={String(requestEditing.status ?? EMPTY_SELECT_VALUE)} onValueChange={(val) => {
+                        updateRequestStatus(requestEditing.id, val === EMPTY_SELECT_VALUE ? null : (val || null));
                       }}>
                         <SelectTrigger className="min-w-[160px]" disabled={!!requestStatusUpdating[requestEditing.id]}>
                           <div className="flex items-center justify-between w-full gap-2">
@@ -1858,10 +2294,23 @@ export default function Admin() {
                           <SelectItem value="new">{getStatusLabel("new")}</SelectItem>
                           <SelectItem value="processing">{getStatusLabel("processing")}</SelectItem>
                           <SelectItem value="done">{getStatusLabel("done")}</SelectItem>
+                          <SelectItem value={SPAM_STATUS}>{getStatusLabel(SPAM_STATUS)}</SelectItem>
                           <SelectItem value={EMPTY_SELECT_VALUE}>—</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
+
+                    <RequestStatusTimeline requestId={requestEditing.id} createdAt={requestEditing.created_at} />
+
+                    <RequestFollowUpPanel
+                      key={requestEditing.id}
+                      requestId={requestEditing.id}
+                      status={requestEditing.status}
+                      followUp={{ assignee_id: requestEditing.assignee_id, follow_up_on: requestEditing.follow_up_on }}
+                      onUpdated={(patch) =>
+                        setRequestEditing((prev) => (prev && prev.id === requestEditing.id ? { ...prev, ...patch } : prev))
+                      }
+                    />
                   </div>
                 ) : (
                   <div className="text-sm text-muted-foreground">Выберите заявку для просмотра.</div>
@@ -2003,101 +2452,87 @@ export default function Admin() {
 
             <div className="space-y-2 sm:col-span-2">
               <label className="text-xs uppercase tracking-widest text-muted-foreground">
-                Фото (файл)
+                Описание
               </label>
-              {productEditing && productImageUrl && !productImageFile ? (
-                <p className="text-xs text-muted-foreground">
-                  Фото уже загружено.
-                </p>
-              ) : null}
-
-              <input
-                ref={productImageInputRef}
-                type="file"
-                accept="image/*"
-                className="hidden"
-                disabled={productSaving}
-                onChange={async (e) => {
-                  const selected = e.target.files?.[0] ?? null;
-
-                  if (productImagePreviewUrl.startsWith("blob:")) {
-                    URL.revokeObjectURL(productImagePreviewUrl);
-                  }
-
-                  setProductImageFile(null);
-                  setProductImagePreviewUrl("");
-                  setProductImageOriginalBytes(selected ? selected.size : null);
-                  setProductImageCompressedBytes(null);
+              <Textarea
+                value={productDescription}
+                onChange={(e) => setProductDescription(e.target.value)}
+                placeholder="Например: Тарелка ручной работы с необработанным краем"
+                className="min-h-[96px]"
+              />
+            </div>
 
-                  if (!selected) {
-                    setProductImageCompressing(false);
-                    return;
+            {(
+              [
+                ["material", "Материал", "Например: керамика"],
+                ["dimensions", "Размеры", "Например: Ø 27 см, высота 3 см"],
+                ["weight", "Вес", "Например: 650 г"],
+                ["color", "Цвет", "Например: молочный"],
+              ] as Array<[keyof ProductAttributesForm, string, string]>
+            ).map(([key, label, placeholder]) => (
+              <div key={key} className="space-y-2">
+                <label className="text-xs uppercase tracking-widest text-muted-foreground">
+                  {label}
+                </label>
+                <Input
+                  value={productAttributes[key]}
+                  onChange={(e) =>
+                    setProductAttributes((prev) => ({ ...prev, [key]: e.target.value }))
                   }
+                  placeholder={placeholder}
+                />
+              </div>
+            ))}
 
-                  const jobId = ++compressJobRef.current;
-                  setProductImageCompressing(true);
-
-                  try {
-                    const compressed = await compressProductImage(selected);
-                    if (compressJobRef.current !== jobId) return;
-
-                    setProductImageFile(compressed);
-                    setProductImageCompressedBytes(compressed.size);
-                    setProductImagePreviewUrl(URL.createObjectURL(compressed));
-                  } catch (error: unknown) {
-                    if (compressJobRef.current !== jobId) return;
-                    toast({
-                      variant: "destructive",
-                      title: "Ошибка",
-                      description: getDbErrorMessage(error, "Не удалось сжать изображение"),
-                    });
-
-                    // Fallback: allow upload of original file.
-                    setProductImageFile(selected);
-                    setProductImageCompressedBytes(selected.size);
-                    setProductImagePreviewUrl(URL.createObjectURL(selected));
-                  } finally {
-                    if (compressJobRef.current !== jobId) return;
-                    setProductImageCompressing(false);
-                  }
-                }}
+            <div className="space-y-2 sm:col-span-2">
+              <label className="text-xs uppercase tracking-widest text-muted-foreground">
+                Уход
+              </label>
+              <Textarea
+                value={productAttributes.care_instructions}
+                onChange={(e) =>
+                  setProductAttributes((prev) => ({ ...prev, care_instructions: e.target.value }))
+                }
+                placeholder="Например: можно мыть в посудомоечной машине"
+                className="min-h-[72px]"
               />
+            </div>
 
-              <Button
-                type="button"
-                variant="ghost"
-                size="sm"
-                disabled={productSaving}
-                onClick={() => productImageInputRef.current?.click()}
-                className="h-auto px-0 py-0 underline underline-offset-4"
-              >
-                {productImageCompressing ? (
-                  <>
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                    Сжимаю…
-                  </>
-                ) : (
-                  "Загрузить фото"
-                )}
-              </Button>
-
-              {productImageOriginalBytes !== null ? (
-                <p className="text-xs text-muted-foreground">
-                  Размер: {formatBytes(productImageOriginalBytes)}
-                  {productImageCompressedBytes !== null
-                    ? ` → ${formatBytes(productImageCompressedBytes)}`
-                    : ""}
-                </p>
-              ) : null}
-              {productImagePreviewUrl || productImageUrl ? (
-                <div className="mt-2 rounded-lg overflow-hidden bg-secondary/20 border border-border">
-                  <img
-                    src={productImagePreviewUrl || productImageUrl}
-                    alt="preview"
-                    className="w-full h-44 object-cover"
-                  />
+            <div className="space-y-2 sm:col-span-2">
+              <label className="text-xs uppercase tracking-widest text-muted-foreground">
+                Фото
+              </label>
+              {productImagesLoading ? (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Загружаю фото…
                 </div>
-              ) : null}
+              ) : (
+                <ProductImagesEditor
+                  images={productImages}
+                  onChange={setProductImages}
+                  disabled={productSaving}
+                />
+              )}
+            </div>
+
+            <div className="space-y-2 sm:col-span-2">
+              <label className="text-xs uppercase tracking-widest text-muted-foreground">
+                Варианты
+              </label>
+              {productImagesLoading ? (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Загружаю варианты…
+                </div>
+              ) : (
+                <ProductVariantsEditor
+                  variants={productVariants}
+                  onChange={setProductVariants}
+                  images={productImages}
+                  disabled={productSaving}
+                />
+              )}
             </div>
           </div>
 
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { Redirect, useSearch } from "wouter";
+import { motion } from "framer-motion";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/lib/supabaseClient";
+import { useAuthSession } from "@/hooks/use-auth";
+
+/** Only same-site admin paths are allowed as a post-login target. */
+function getNextPath(search: string): string {
+  const next = new URLSearchParams(search).get("next");
+  return next && next.startsWith("/admin") && !next.startsWith("//") ? next : "/admin";
+}
+
+function getAuthErrorMessage(message: string): string {
+  if (/invalid login credentials/i.test(message)) return "Неверный email или пароль.";
+  if (/email not confirmed/i.test(message)) return "Email не подтверждён.";
+  return "Не удалось войти. Попробуйте позже.";
+}
+
+export default function AdminLogin() {
+  const search = useSearch();
+  const { session, loading } = useAuthSession();
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const prevTitle = document.title;
+    document.title = "Вход — AMINA ZARF";
+    return () => {
+      document.title = prevTitle;
+    };
+  }, []);
+
+  if (!loading && session) return <Redirect to={getNextPath(search)} replace />;
+
+  return (
+    <div className="min-h-screen bg-background font-sans flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+        className="w-full max-w-sm"
+      >
+        <p className="text-xs uppercase tracking-[0.3em] text-muted-foreground mb-4">Панель управления</p>
+        <h1 className="font-serif text-4xl text-foreground mb-10">Вход</h1>
+
+        <form
+          className="space-y-4"
+          onSubmit={async (e) => {
+            e.preventDefault();
+            if (submitting) return;
+
+            setSubmitting(true);
+            setError(null);
+
+            const { error: signInError } = await supabase.auth.signInWithPassword({
+              email: email.trim(),
+              password,
+            });
+
+            if (signInError) {
+              console.error("[auth] sign in error", signInError);
+              setError(getAuthErrorMessage(signInError.message));
+              setPassword("");
+            }
+
+            // On success the session listener redirects to the admin panel
+            setSubmitting(false);
+          }}
+        >
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+            autoComplete="username"
+            required
+            autoFocus
+          />
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Пароль"
+            autoComplete="current-password"
+            required
+          />
+
+          {error ? <p className="text-xs text-destructive">{error}</p> : null}
+
+          <Button type="submit" className="w-full" disabled={submitting || loading}>
+            {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Войти"}
+          </Button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
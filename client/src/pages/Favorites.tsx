@@ -0,0 +1,114 @@
+import { useEffect } from "react";
+import { Link } from "wouter";
+import { X } from "lucide-react";
+import { Navigation } from "@/components/Navigation";
+import { Footer } from "@/components/Footer";
+import { ProductCard } from "@/components/ProductCard";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useProductsByIds } from "@/hooks/use-products";
+import { useCategories } from "@/hooks/use-categories";
+
+export default function Favorites() {
+  const { items: favorites, remove } = useFavorites();
+  const { data: products, isLoading, isError } = useProductsByIds(favorites.map((f) => f.id));
+  const { data: categories } = useCategories();
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, []);
+
+  const productsById = new Map((products ?? []).map((p) => [p.id, p]));
+
+  return (
+    <div className="min-h-screen bg-background font-sans selection:bg-primary/20">
+      <Navigation />
+
+      <section className="pt-28 md:pt-32 pb-24 container mx-auto px-6">
+        <div className="text-center mb-12">
+          <h1 className="font-serif text-3xl md:text-4xl mb-4 text-foreground">Избранное</h1>
+          <div className="w-12 h-px bg-primary/40 mx-auto" />
+        </div>
+
+        {favorites.length === 0 ? (
+          <div className="py-20 text-center text-muted-foreground space-y-4">
+            <p>Вы пока ничего не сохранили. Нажмите на сердечко на карточке товара, чтобы вернуться к нему позже.</p>
+            <Link
+              href="/"
+              className="inline-block text-[10px] uppercase tracking-[0.2em] border-b border-border pb-1 hover:text-primary hover:border-primary transition-colors"
+            >
+              Перейти в магазин
+            </Link>
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-20">
+            <div className="w-1.5 h-1.5 bg-primary rounded-full animate-bounce mr-1"></div>
+            <div className="w-1.5 h-1.5 bg-primary rounded-full animate-bounce mr-1 delay-100"></div>
+            <div className="w-1.5 h-1.5 bg-primary rounded-full animate-bounce delay-200"></div>
+          </div>
+        ) : isError ? (
+          <div className="py-20 text-center text-muted-foreground">
+            Не удалось загрузить избранное. Попробуйте обновить страницу.
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-4 gap-x-4 md:gap-x-6 gap-y-8 md:gap-y-12">
+            {favorites.map((favorite, idx) => {
+              const product = productsById.get(favorite.id);
+
+              // Removed from the catalog since it was saved: show the snapshot
+              if (!product) {
+                return (
+                  <div key={favorite.id} className="text-center space-y-1">
+                    <div className="relative mb-4 aspect-[3/4] bg-secondary/20 overflow-hidden">
+                      {favorite.image ? (
+                        <img
+                          src={favorite.image}
+                          alt={favorite.name}
+                          className="w-full h-full object-cover grayscale opacity-50"
+                        />
+                      ) : null}
+                      <button
+                        type="button"
+                        onClick={() => remove(favorite.id)}
+                        className="absolute top-2 right-2 rounded-full bg-background/80 p-2 text-muted-foreground hover:text-primary transition-colors"
+                        aria-label={`Убрать «${favorite.name}» из избранного`}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <h3 className="font-serif text-lg text-muted-foreground">{favorite.name}</h3>
+                    <p className="text-sm text-muted-foreground">Товар больше не продаётся</p>
+                  </div>
+                );
+              }
+
+              return (
+                <div key={favorite.id}>
+                  <ProductCard
+                    id={product.id}
+                    index={idx}
+                    name={product.name}
+                    price={product.price ?? null}
+                    image={product.image}
+                    images={product.images}
+                    inStock={product.inStock}
+                    description={product.description}
+                    attributes={product.attributes}
+                    variants={product.variants}
+                    categoryName={categories?.find((c) => c.id === product.categoryId)?.name}
+                  />
+                  {product.inStock === false ? (
+                    <p className="mt-2 text-center text-[10px] uppercase tracking-[0.2em] text-muted-foreground">
+                      Сейчас нет в наличии
+                    </p>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      <Footer />
+    </div>
+  );
+}
@@ -3,14 +3,19 @@ import { motion } from "framer-motion";
 import { Navigation } from "@/components/Navigation";
 import { Footer } from "@/components/Footer";
 import { ProductCard } from "@/components/ProductCard";
+import { CatalogFilters } from "@/components/CatalogFilters";
 import { useProductsPaged, useProductsByCategoryPaged } from "@/hooks/use-products";
 import { useCategories } from "@/hooks/use-categories";
+import { useCatalogLocation } from "@/hooks/use-catalog-location";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { ChevronDown, ChevronUp } from "lucide-react";
 import { AnimatePresence } from "framer-motion";
 import { supabase } from "@/lib/supabaseClient";
+import { parsePhone, sanitizePhoneInput } from "@/lib/phone";
 import { useToast } from "@/hooks/use-toast";
+import { isRateLimitError, useSpamGuard } from "@/hooks/use-spam-guard";
+import NotFound from "@/pages/not-found";
 
 const TeapotLoader = () => (
   <div className="flex flex-col items-center justify-center space-y-3 py-12">
@@ -24,15 +29,24 @@ const TeapotLoader = () => (
 );
 
 export default function Home() {
-  const [activeCategory, setActiveCategory] = useState<string | null>(null);
-  const [catalogPage, setCatalogPage] = useState(1);
+  const {
+    categorySlug: activeCategory,
+    page: catalogPage,
+    isCatalogOpen,
+    setCategory,
+    setPage: setCatalogPage,
+    setCatalogOpen: setIsCatalogOpen,
+    filters: catalogFilters,
+    setFilters: setCatalogFilters,
+    resetFilters: resetCatalogFilters,
+  } = useCatalogLocation();
   const shopLimit = 8;
   const catalogPageSize = 20;
-  const [isCatalogOpen, setIsCatalogOpen] = useState(false);
   const [isCategoryMenuOpen, setIsCategoryMenuOpen] = useState(true);
   const [newsletterPhone, setNewsletterPhone] = useState("+992");
-  const [newsletterStatus, setNewsletterStatus] = useState<"idle" | "success" | "error">("idle");
+  const [newsletterStatus, setNewsletterStatus] = useState<"idle" | "success" | "already" | "error">("idle");
   const [newsletterSubmitting, setNewsletterSubmitting] = useState(false);
+  const newsletterSpamGuard = useSpamGuard();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -45,8 +59,15 @@ export default function Home() {
       .catch((error) => console.error("[supabase] getSession threw", error));
   }, []);
   
+  // Category pages (/category/:slug) are shown scrolled to the shop section, also when the
+  // category changes by a link or the back button; the open catalog keeps the page where it is.
+  useEffect(() => {
+    if (!activeCategory || isCatalogOpen) return;
+    document.getElementById("shop")?.scrollIntoView();
+  }, [activeCategory]);
+
   // Data Fetching
-  const { data: categories } = useCategories();
+  const { data: categories, isSuccess: categoriesLoaded } = useCategories();
   const { data: shopAll, isLoading: loadingShopAll } = useProductsPaged(1, shopLimit);
   const { data: shopCat, isLoading: loadingShopCat } = useProductsByCategoryPaged(
     activeCategory,
@@ -57,12 +78,16 @@ export default function Home() {
   const { data: catalogAll, isLoading: loadingCatalogAll } = useProductsPaged(
     catalogPage,
     catalogPageSize,
+    catalogFilters,
   );
   const { data: catalogCat, isLoading: loadingCatalogCat } = useProductsByCategoryPaged(
     activeCategory,
     catalogPage,
     catalogPageSize,
+    catalogFilters,
   );
+  const hasCatalogFilters =
+    catalogFilters.minPrice !== null || catalogFilters.maxPrice !== null || catalogFilters.inStockOnly;
 
   const shopProducts = activeCategory ? shopCat?.items : shopAll?.items;
   const isShopLoading = activeCategory ? loadingShopCat : loadingShopAll;
@@ -81,6 +106,7 @@ export default function Home() {
             const { count } = await supabase
               .from("products")
               .select("id", { count: "exact", head: true })
+              .is("deleted_at", null)
               .eq("category_id", cat.id);
             map[cat.id] = (count ?? 0) > 0;
           } catch {
@@ -104,18 +130,22 @@ export default function Home() {
 
   useEffect(() => {
     if (!catalogTotalPages) return;
-    if (catalogPage > catalogTotalPages) setCatalogPage(catalogTotalPages);
-  }, [catalogPage, catalogTotalPages]);
+    if (catalogPage > catalogTotalPages) setCatalogPage(catalogTotalPages, { replace: true });
+  }, [catalogPage, catalogTotalPages, setCatalogPage]);
 
   const handleCategoryChange = (slug: string | null) => {
-    setActiveCategory(slug);
-    setCatalogPage(1);
+    setCategory(slug);
   };
 
+  const isUnknownCategory =
+    !!activeCategory && categoriesLoaded && !(categories ?? []).some((c) => c.slug === activeCategory);
+
   // Static images for Hero and Featured sections
   const heroImage = "/images/hero.jpg";
   const featuredImage = "https://images.unsplash.com/photo-1615529182904-14819c35db37?q=80&w=2000&auto=format&fit=crop"; 
 
+  if (isUnknownCategory) return <NotFound />;
+
   return (
     <div className="min-h-screen bg-background font-sans selection:bg-primary/20">
       <Navigation onOpenCatalog={() => setIsCatalogOpen(true)} />
@@ -237,7 +267,11 @@ export default function Home() {
                     name={product.name}
                     price={product.price ?? null}
                     image={product.image}
+                    images={product.images}
                     inStock={product.inStock}
+                    description={product.description}
+                    attributes={product.attributes}
+                    variants={product.variants}
                     categoryName={categories?.find(c => c.id === product.categoryId)?.name}
                   />
                 ))}
@@ -294,6 +328,13 @@ export default function Home() {
                       </button>
                     ))}
                   </div>
+                  <div className="mt-4 md:mt-12 pt-6 border-t border-border">
+                    <CatalogFilters
+                      filters={catalogFilters}
+                      onChange={setCatalogFilters}
+                      onReset={resetCatalogFilters}
+                    />
+                  </div>
                 </motion.div>
               )}
             </AnimatePresence>
@@ -307,7 +348,9 @@ export default function Home() {
               <>
                 {catalogProducts && catalogProducts.length === 0 ? (
                   <div className="py-20 text-center text-muted-foreground">
-                    Товары к этой категории еще не добавлены.
+                    {hasCatalogFilters
+                      ? "Нет товаров, подходящих под выбранные фильтры."
+                      : "Товары к этой категории еще не добавлены."}
                   </div>
                 ) : (
                   <div className="grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-x-4 md:gap-x-8 gap-y-10 md:gap-y-16">
@@ -319,7 +362,11 @@ export default function Home() {
                         name={product.name}
                         price={product.price ?? null}
                         image={product.image}
+                        images={product.images}
                         inStock={product.inStock}
+                        description={product.description}
+                        attributes={product.attributes}
+                        variants={product.variants}
                         categoryName={categories?.find((c) => c.id === product.categoryId)?.name}
                       />
                     ))}
@@ -331,7 +378,7 @@ export default function Home() {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => setCatalogPage((p) => Math.max(1, p - 1))}
+                      onClick={() => setCatalogPage(Math.max(1, catalogPage - 1))}
                       disabled={isCatalogLoading || catalogPage <= 1}
                     >
                       Назад
@@ -342,7 +389,7 @@ export default function Home() {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => setCatalogPage((p) => p + 1)}
+                      onClick={() => setCatalogPage(catalogPage + 1)}
                       disabled={isCatalogLoading || catalogPage >= catalogTotalPages}
                     >
                       Вперед
@@ -404,42 +451,54 @@ export default function Home() {
         <h3 className="font-serif text-3xl mb-4">Оставьте свой контакт</h3>
         <p className="text-muted-foreground mb-8 text-sm">Оставьте номер телефона, и мы сообщим о новых коллекциях и событиях студии.</p>
         <form
-          className="max-w-md mx-auto flex flex-col md:flex-row md:items-center border-b border-border pb-2"
+          className="relative max-w-md mx-auto flex flex-col md:flex-row md:items-center border-b border-border pb-2"
           onSubmit={async (e) => {
             e.preventDefault();
             if (newsletterSubmitting) return;
 
-            const phone = newsletterPhone.trim();
-            if (!phone || phone.length < 5) {
+            // Bots get the usual success state and nothing is sent
+            if (newsletterSpamGuard.isBot()) {
+              setNewsletterStatus("success");
+              return;
+            }
+
+            const parsedPhone = parsePhone(newsletterPhone);
+            if (!parsedPhone.ok) {
               setNewsletterStatus("error");
               toast({
                 variant: "destructive",
                 title: "Ошибка",
-                description: "Введите корректный номер телефона.",
+                description: parsedPhone.error,
               });
               return;
             }
+            const phone = parsedPhone.e164;
 
             setNewsletterSubmitting(true);
             setNewsletterStatus("idle");
 
-            const { error } = await supabase.from("requests").insert({
-              client_phone: phone,
+            const { data: subscribed, error } = await supabase.rpc("subscribe_newsletter", {
+              p_phone: phone,
+              p_source: "home",
+              ...newsletterSpamGuard.getSubmissionParams(),
             });
 
             if (error) {
-              console.error("[requests] insert error", error);
+              console.error("[newsletter] subscribe error", error);
               setNewsletterStatus("error");
               toast({
                 variant: "destructive",
                 title: "Ошибка",
-                description: "Не удалось отправить заявку. Попробуйте позже.",
+                description: isRateLimitError(error)
+                  ? "Слишком много заявок подряд. Попробуйте через несколько минут."
+                  : "Не удалось оформить подписку. Попробуйте позже.",
               });
             } else {
-              setNewsletterStatus("success");
+              setNewsletterStatus(subscribed === false ? "already" : "success");
+              newsletterSpamGuard.restart();
               toast({
-                title: "Заявка отправлена",
-                description: "Мы свяжемся с вами в ближайшее время.",
+                title: subscribed === false ? "Вы уже подписаны" : "Вы подписались",
+                description: "Мы сообщим о новых коллекциях и событиях студии.",
               });
             }
 
@@ -452,9 +511,7 @@ export default function Home() {
             autoComplete="tel"
             value={newsletterPhone}
             onChange={(e) => {
-              const raw = e.target.value;
-              const cleaned = raw.replace(/[^0-9+]/g, "");
-              setNewsletterPhone(cleaned);
+              setNewsletterPhone(sanitizePhoneInput(e.target.value));
             }}
             placeholder="Введите номер телефона" 
             className="w-full md:flex-1 bg-white/80 text-foreground border border-border/60 rounded-md px-4 py-3 outline-none placeholder:text-muted-foreground/60 text-center shadow-sm lg:bg-transparent lg:border-none lg:rounded-none lg:px-0 lg:py-0 lg:shadow-none"
@@ -465,9 +522,17 @@ export default function Home() {
           >
             {newsletterSubmitting ? "Отправка..." : "Оставить контакт"}
           </button>
+          <input {...newsletterSpamGuard.honeypotProps} />
         </form>
+        <p className="mt-4 text-[11px] text-muted-foreground max-w-md mx-auto">
+          Оставляя номер, вы соглашаетесь получать сообщения о новинках. Отписаться можно в любой момент — просто
+          напишите нам.
+        </p>
         {newsletterStatus === "success" ? (
-          <div className="mt-4 text-xs text-primary">Заявка отправлена. Мы свяжемся с вами.</div>
+          <div className="mt-4 text-xs text-primary">Готово! Номер добавлен в рассылку.</div>
+        ) : null}
+        {newsletterStatus === "already" ? (
+          <div className="mt-4 text-xs text-primary">Этот номер уже подписан на рассылку.</div>
         ) : null}
         {newsletterStatus === "error" ? (
           <div className="mt-4 text-xs text-destructive">Ошибка отправки. Проверьте номер и попробуйте снова.</div>
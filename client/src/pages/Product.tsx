@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Link, useParams } from "wouter";
+import { ChevronLeft } from "lucide-react";
+import { Navigation } from "@/components/Navigation";
+import { Footer } from "@/components/Footer";
+import { AddToInquiryCart } from "@/components/AddToInquiryCart";
+import { ProductDetails } from "@/components/ProductDetails";
+import { ProductGallery } from "@/components/ProductGallery";
+import { ProductVariantPicker, getVariantView } from "@/components/ProductVariantPicker";
+import { useProduct } from "@/hooks/use-products";
+import { useCategories } from "@/hooks/use-categories";
+import NotFound from "@/pages/not-found";
+
+function parseProductId(raw: string | undefined): number | null {
+  if (!raw || !/^\d+$/.test(raw)) return null;
+  const id = Number(raw);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+export default function Product() {
+  const params = useParams<{ id: string }>();
+  const productId = parseProductId(params.id);
+
+  const { data: product, isLoading, isError } = useProduct(productId);
+  const { data: categories } = useCategories();
+
+  const [selectedVariantId, setSelectedVariantId] = useState<number | null>(null);
+  useEffect(() => {
+    const variants = product?.variants ?? [];
+    setSelectedVariantId((variants.find((v) => v.inStock) ?? variants[0])?.id ?? null);
+  }, [product?.id]);
+
+  const selectedVariant = product?.variants?.find((v) => v.id === selectedVariantId) ?? null;
+  const view = product
+    ? getVariantView(
+        {
+          price: product.price ?? null,
+          inStock: product.inStock,
+          images: product.images?.length ? product.images : [product.image],
+        },
+        selectedVariant,
+      )
+    : null;
+
+  const category = product?.categoryId
+    ? categories?.find((c) => c.id === product.categoryId)
+    : undefined;
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [productId]);
+
+  useEffect(() => {
+    if (!product) return;
+    const prevTitle = document.title;
+    document.title = `${product.name} — AMINA ZARF`;
+    return () => {
+      document.title = prevTitle;
+    };
+  }, [product]);
+
+  if (productId === null) return <NotFound />;
+  if (!isLoading && !isError && !product) return <NotFound />;
+
+  return (
+    <div className="min-h-screen bg-background font-sans selection:bg-primary/20">
+      <Navigation />
+
+      <section className="pt-28 md:pt-32 pb-24 container mx-auto px-6">
+        <Link
+          href="/"
+          className="inline-flex items-center gap-1 text-[10px] uppercase tracking-[0.2em] text-muted-foreground hover:text-primary transition-colors mb-8"
+        >
+          <ChevronLeft className="w-3 h-3" />
+          На главную
+        </Link>
+
+        {isLoading ? (
+          <div className="flex justify-center py-20">
+            <div className="w-1.5 h-1.5 bg-primary rounded-full animate-bounce mr-1"></div>
+            <div className="w-1.5 h-1.5 bg-primary rounded-full animate-bounce mr-1 delay-100"></div>
+            <div className="w-1.5 h-1.5 bg-primary rounded-full animate-bounce delay-200"></div>
+          </div>
+        ) : isError || !product || !view ? (
+          <div className="py-20 text-center text-muted-foreground">
+            Не удалось загрузить товар. Попробуйте обновить страницу.
+          </div>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+            className="grid grid-cols-1 lg:grid-cols-2 gap-10 lg:gap-16"
+          >
+            <ProductGallery
+              key={selectedVariant?.id ?? "product"}
+              images={view.images}
+              alt={product.name}
+              imageClassName="aspect-[3/4] bg-secondary/20"
+            />
+
+            <div className="flex flex-col justify-center">
+              <div className="mb-8 space-y-3">
+                {category && (
+                  <Link
+                    href={`/category/${category.slug}`}
+                    className="text-[10px] uppercase tracking-[0.3em] text-primary hover:text-foreground transition-colors"
+                  >
+                    {category.name}
+                  </Link>
+                )}
+                <h1 className="font-serif text-3xl sm:text-4xl md:text-5xl text-foreground leading-tight">
+                  {product.name}
+                </h1>
+              </div>
+
+              <div className="space-y-5 mb-8">
+                <div className="flex justify-between items-baseline border-b border-border pb-3">
+                  <span className="text-muted-foreground text-xs sm:text-sm uppercase tracking-widest">Стоимость</span>
+                  <span className="font-serif text-lg sm:text-xl">{view.price || "Цена по запросу"}</span>
+                </div>
+                <div className="flex justify-between items-baseline border-b border-border pb-3">
+                  <span className="text-muted-foreground text-xs sm:text-sm uppercase tracking-widest">Наличие</span>
+                  <span className="text-xs sm:text-sm">
+                    {view.inStock === false ? "Нет" : "В наличии"}
+                  </span>
+                </div>
+              </div>
+
+              <div className="mb-8 empty:hidden">
+                <ProductVariantPicker
+                  variants={product.variants ?? []}
+                  selectedId={selectedVariantId}
+                  onSelect={(v) => setSelectedVariantId(v.id)}
+                />
+              </div>
+
+              <div className="mb-10 empty:hidden">
+                <ProductDetails description={product.description} attributes={product.attributes} />
+              </div>
+
+              <AddToInquiryCart
+                product={{ id: product.id, name: product.name, image: product.image, price: view.price }}
+                variant={selectedVariant}
+              />
+            </div>
+          </motion.div>
+        )}
+      </section>
+
+      <Footer />
+    </div>
+  );
+}
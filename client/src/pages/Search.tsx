@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { Navigation } from "@/components/Navigation";
+import { Footer } from "@/components/Footer";
+import { ProductCard } from "@/components/ProductCard";
+import { Button } from "@/components/ui/button";
+import { useProductSearch } from "@/hooks/use-products";
+import { useCategories } from "@/hooks/use-categories";
+
+const searchPageSize = 20;
+
+function buildSearchHref(query: string, page: number): string {
+  const params = new URLSearchParams();
+  if (query) params.set("q", query);
+  if (page > 1) params.set("page", String(page));
+  const qs = params.toString();
+  return qs ? `/search?${qs}` : "/search";
+}
+
+export default function Search() {
+  const search = useSearch();
+  const [, navigate] = useLocation();
+
+  const params = new URLSearchParams(search);
+  const query = (params.get("q") ?? "").trim();
+  const pageParam = Number(params.get("page"));
+  const page = Number.isSafeInteger(pageParam) && pageParam > 0 ? pageParam : 1;
+
+  const [draft, setDraft] = useState(query);
+  useEffect(() => setDraft(query), [query]);
+
+  const { data: categories } = useCategories();
+  const { data: result, isLoading, isError } = useProductSearch(query, page, searchPageSize);
+
+  const totalPages = result?.totalPages;
+
+  useEffect(() => {
+    if (!totalPages) return;
+    if (page > totalPages) navigate(buildSearchHref(query, totalPages), { replace: true });
+  }, [page, totalPages, query, navigate]);
+
+  return (
+    <div className="min-h-screen bg-background font-sans selection:bg-primary/20">
+      <Navigation />
+
+      <section className="pt-28 md:pt-32 pb-24 container mx-auto px-6">
+        <div className="text-center mb-12">
+          <h1 className="font-serif text-3xl md:text-4xl mb-4 text-foreground">Поиск</h1>
+          <div className="w-12 h-px bg-primary/40 mx-auto" />
+        </div>
+
+        <form
+          role="search"
+          className="max-w-md mx-auto flex items-center border-b border-border pb-2 mb-16"
+          onSubmit={(e) => {
+            e.preventDefault();
+            navigate(buildSearchHref(draft.trim(), 1));
+          }}
+        >
+          <input
+            type="search"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Название или описание"
+            aria-label="Поиск товаров"
+            className="flex-1 bg-transparent outline-none placeholder:text-muted-foreground/60 text-center"
+          />
+          <button
+            type="submit"
+            className="ml-4 uppercase text-xs tracking-widest text-foreground hover:text-primary transition-colors"
+          >
+            Найти
+          </button>
+        </form>
+
+        {!query ? (
+          <div className="py-20 text-center text-muted-foreground">
+            Введите запрос, чтобы найти изделие.
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-20">
+            <div className="w-1.5 h-1.5 bg-primary rounded-full animate-bounce mr-1"></div>
+            <div className="w-1.5 h-1.5 bg-primary rounded-full animate-bounce mr-1 delay-100"></div>
+            <div className="w-1.5 h-1.5 bg-primary rounded-full animate-bounce delay-200"></div>
+          </div>
+        ) : isError ? (
+          <div className="py-20 text-center text-muted-foreground">
+            Не удалось выполнить поиск. Попробуйте позже.
+          </div>
+        ) : result && result.items.length === 0 ? (
+          <div className="py-20 text-center text-muted-foreground">
+            По запросу «{query}» ничего не найдено.
+          </div>
+        ) : (
+          <>
+            <p className="text-center text-[10px] uppercase tracking-[0.3em] text-muted-foreground mb-10">
+              Найдено: {result?.total ?? 0}
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-4 gap-x-4 md:gap-x-6 gap-y-8 md:gap-y-12 mb-16">
+              {result?.items.map((product, idx) => (
+                <ProductCard
+                  key={product.id}
+                  id={product.id}
+                  index={idx}
+                  name={product.name}
+                  price={product.price ?? null}
+                  image={product.image}
+                  images={product.images}
+                  inStock={product.inStock}
+                  description={product.description}
+                  attributes={product.attributes}
+                  variants={product.variants}
+                  categoryName={categories?.find((c) => c.id === product.categoryId)?.name}
+                />
+              ))}
+            </div>
+
+            {totalPages && totalPages > 1 ? (
+              <div className="mt-10 flex items-center justify-center gap-3">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigate(buildSearchHref(query, Math.max(1, page - 1)))}
+                  disabled={page <= 1}
+                >
+                  Назад
+                </Button>
+                <span className="text-[10px] uppercase tracking-[0.3em] text-muted-foreground">
+                  Страница {page} из {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigate(buildSearchHref(query, page + 1))}
+                  disabled={page >= totalPages}
+                >
+                  Вперед
+                </Button>
+              </div>
+            ) : null}
+          </>
+        )}
+      </section>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * Queue worker behind `notify-telegram`. Reads its configuration from the environment on
+ * import; index.ts serves it, the tests call it directly.
+ */
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { formatRequestMessage, type RequestNotificationPayload } from "./message.ts";
+
+const BATCH_SIZE = 10;
+/** Keeps one call well inside the Edge Function time limit; the rest waits for the next wake-up. */
+const MAX_BATCHES = 5;
+
+type ClaimedNotification = {
+  id: number;
+  request_id: number;
+  attempts: number;
+  payload: RequestNotificationPayload | null;
+};
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`Missing env var ${name}`);
+  return value;
+}
+
+const supabase = createClient(requireEnv("SUPABASE_URL"), requireEnv("SUPABASE_SERVICE_ROLE_KEY"), {
+  auth: { persistSession: false },
+});
+
+const botToken = requireEnv("TELEGRAM_BOT_TOKEN");
+const chatId = requireEnv("TELEGRAM_CHAT_ID");
+const notifySecret = requireEnv("NOTIFY_SECRET");
+const apiUrl = (Deno.env.get("TELEGRAM_API_URL") ?? "https://api.telegram.org").replace(/\/+$/, "");
+const siteUrl = Deno.env.get("SITE_URL")?.replace(/\/+$/, "") || null;
+
+async function sendTelegramMessage(text: string) {
+  const response = await fetch(`${apiUrl}/bot${botToken}/sendMessage`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ chat_id: chatId, text, parse_mode: "HTML", disable_web_page_preview: true }),
+    signal: AbortSignal.timeout(10_000),
+  });
+  const body = (await response.json().catch(() => null)) as { ok?: boolean; description?: string } | null;
+  if (!response.ok || !body?.ok) {
+    throw new Error(`Telegram ${response.status}: ${body?.description ?? response.statusText}`);
+  }
+}
+
+async function finish(id: number, error: string | null) {
+  const { error: finishError } = await supabase.rpc("finish_request_notification", { p_id: id, p_error: error });
+  if (finishError) console.error("[notify-telegram] finish failed", id, finishError);
+}
+
+/** Drains the due part of the queue; answers with the number of sent and failed messages. */
+export async function handleNotifyRequest(req: Request): Promise<Response> {
+  if (req.headers.get("Authorization") !== `Bearer ${notifySecret}`) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  let sent = 0;
+  let failed = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES; batch++) {
+    const { data, error } = await supabase.rpc("claim_request_notifications", { p_limit: BATCH_SIZE });
+    if (error) {
+      console.error("[notify-telegram] claim failed", error);
+      return Response.json({ error: error.message, sent, failed }, { status: 500 });
+    }
+
+    const notifications = (data ?? []) as ClaimedNotification[];
+    for (const notification of notifications) {
+      // Flagged as spam after it was queued: nothing to announce
+      if (!notification.payload || notification.payload.status === "spam") {
+        await finish(notification.id, null);
+        continue;
+      }
+      try {
+        await sendTelegramMessage(formatRequestMessage(notification.payload, siteUrl));
+        await finish(notification.id, null);
+        sent++;
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        console.error("[notify-telegram] send failed", notification.request_id, message);
+        await finish(notification.id, message);
+        failed++;
+      }
+    }
+
+    if (notifications.length < BATCH_SIZE) break;
+  }
+
+  return Response.json({ sent, failed });
+}
@@ -0,0 +1,22 @@
+/**
+ * Sends Telegram messages about new requests from the `request_notifications` queue
+ * (see supabase/migrations/20261019110000_request_notifications.sql). Woken by the database
+ * after each insert and by pg_cron once a minute for retries; each call drains what is due.
+ *
+ * Secrets (`supabase secrets set …`):
+ *   TELEGRAM_BOT_TOKEN, TELEGRAM_CHAT_ID — bot and the staff chat or channel
+ *   NOTIFY_SECRET    — shared with the `notify_telegram_secret` Vault secret
+ *   SITE_URL         — optional, storefront address for product and admin links
+ *   TELEGRAM_API_URL — optional, defaults to https://api.telegram.org
+ *
+ * Local run against the mock Bot API (mock-bot-api.ts in this folder):
+ *   deno run --allow-net --allow-env supabase/functions/notify-telegram/mock-bot-api.ts
+ *   TELEGRAM_API_URL=http://host.docker.internal:8081 in the env file, then
+ *   supabase functions serve notify-telegram --env-file <env file>
+ *
+ * Tests (the queue test needs `supabase start` with the migrations applied, see notify_test.ts):
+ *   deno test --allow-net --allow-env supabase/functions/notify-telegram
+ */
+import { handleNotifyRequest } from "./handler.ts";
+
+Deno.serve(handleNotifyRequest);
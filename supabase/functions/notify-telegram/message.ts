@@ -0,0 +1,91 @@
+/** Request data from `public.request_notification_payload`. */
+export type RequestNotificationPayload = {
+  id: number;
+  created_at: string;
+  status: string | null;
+  client_name: string | null;
+  client_phone: string | null;
+  client_message: string | null;
+  items: Array<{
+    product_id: number | null;
+    product_name: string;
+    variant_name: string | null;
+    quantity: number;
+    image: string | null;
+  }>;
+};
+
+/** Telegram messages are limited to 4096 characters; the markup is counted too, to stay on the safe side. */
+const MAX_MESSAGE_LENGTH = 4096;
+const MAX_NAME_LENGTH = 200;
+const MAX_PRODUCT_NAME_LENGTH = 300;
+const MAX_CLIENT_MESSAGE_LENGTH = 1000;
+/** Room kept for the "и ещё N" line when items are dropped. */
+const MORE_ITEMS_RESERVE = 40;
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** Escaped text of at most `maxLength` characters; cuts between characters, never inside an entity. */
+function escapeHtmlLimited(value: string, maxLength: number): string {
+  const escaped = escapeHtml(value);
+  if (escaped.length <= maxLength) return escaped;
+  let result = "";
+  for (const char of value) {
+    const next = escapeHtml(char);
+    if (result.length + next.length + 1 > maxLength) break;
+    result += next;
+  }
+  return `${result}…`;
+}
+
+function formatItemLine(item: RequestNotificationPayload["items"][number], siteUrl: string | null): string {
+  const name = escapeHtmlLimited(
+    `${item.product_name}${item.variant_name ? ` (${item.variant_name})` : ""}`,
+    MAX_PRODUCT_NAME_LENGTH,
+  );
+  const title = siteUrl && item.product_id !== null
+    ? `<a href="${escapeHtml(`${siteUrl}/product/${item.product_id}`)}">${name}</a>`
+    : name;
+  const quantity = item.quantity > 1 ? ` × ${item.quantity}` : "";
+  const image = item.image ? ` — <a href="${escapeHtml(item.image)}">фото</a>` : "";
+  return `• ${title}${quantity}${image}`;
+}
+
+/**
+ * Message text for `parse_mode: "HTML"`. Product names link to the storefront when `siteUrl`
+ * is set; the photo link goes to the product's primary image. Every part is escaped and cut
+ * before the markup is added, and items that do not fit are summed up as "и ещё N", so the
+ * result is always valid HTML within the Telegram limit.
+ */
+export function formatRequestMessage(request: RequestNotificationPayload, siteUrl: string | null): string {
+  const head = [
+    `<b>Новая заявка #${request.id}</b>`,
+    `Клиент: ${escapeHtmlLimited(request.client_name ?? "—", MAX_NAME_LENGTH)}`,
+    `Телефон: ${escapeHtmlLimited(request.client_phone ?? "—", MAX_NAME_LENGTH)}`,
+  ];
+
+  const tail: string[] = [];
+  if (request.client_message) {
+    tail.push("", `Сообщение: ${escapeHtmlLimited(request.client_message, MAX_CLIENT_MESSAGE_LENGTH)}`);
+  }
+  if (siteUrl) tail.push("", `<a href="${escapeHtml(`${siteUrl}/admin`)}">Открыть в админке</a>`);
+
+  const itemLines: string[] = [];
+  if (request.items.length) {
+    const fixedLength = [...head, "", "Товары:", ...tail].join("\n").length;
+    let budget = MAX_MESSAGE_LENGTH - fixedLength - MORE_ITEMS_RESERVE;
+    for (const item of request.items) {
+      const line = formatItemLine(item, siteUrl);
+      if (line.length + 1 > budget) break;
+      itemLines.push(line);
+      budget -= line.length + 1;
+    }
+    const dropped = request.items.length - itemLines.length;
+    if (dropped > 0) itemLines.push(`и ещё ${dropped}`);
+  }
+
+  const lines = itemLines.length ? [...head, "", "Товары:", ...itemLines, ...tail] : [...head, ...tail];
+  return lines.join("\n");
+}
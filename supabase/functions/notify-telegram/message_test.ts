@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { formatRequestMessage, type RequestNotificationPayload } from "./message.ts";
+import { assertTelegramHtml } from "./test_html.ts";
+
+function request(overrides: Partial<RequestNotificationPayload> = {}): RequestNotificationPayload {
+  return {
+    id: 42,
+    created_at: "2026-10-19T09:00:00Z",
+    status: "new",
+    client_name: "Али",
+    client_phone: "+992921234567",
+    client_message: null,
+    items: [],
+    ...overrides,
+  };
+}
+
+Deno.test("escapes client input", () => {
+  const text = formatRequestMessage(
+    request({
+      client_name: `<b>"Али" & Co</b>`,
+      client_message: "скидка <50%> & доставка",
+      items: [{ product_id: 3, product_name: "Ваза <синяя>", variant_name: null, quantity: 2, image: "https://x/a.jpg?b=1&c=2" }],
+    }),
+    "https://shop.tj",
+  );
+  assertTelegramHtml(text);
+  assert.match(text, /Клиент: &lt;b&gt;&quot;Али&quot; &amp; Co&lt;\/b&gt;/);
+  assert.match(text, /<a href="https:\/\/x\/a.jpg\?b=1&amp;c=2">фото<\/a>/);
+});
+
+Deno.test("a large cart stays within the limit and lists what was left out", () => {
+  const items = Array.from({ length: 200 }, (_, i) => ({
+    product_id: i + 1,
+    product_name: `Керамическая ваза ручной работы & глазурь №${i + 1}`,
+    variant_name: "большая",
+    quantity: 3,
+    image: `https://example.supabase.co/storage/v1/object/public/product-images/${"x".repeat(80)}-${i}.jpg`,
+  }));
+  const text = formatRequestMessage(request({ items, client_message: "&".repeat(3000) }), "https://shop.tj");
+
+  assert.ok(text.length <= 4096, `length ${text.length}`);
+  assertTelegramHtml(text);
+  const shown = text.split("\n").filter((line) => line.startsWith("• ")).length;
+  assert.ok(shown > 0 && shown < items.length);
+  assert.ok(text.includes(`и ещё ${items.length - shown}`));
+});
+
+Deno.test("long texts are cut between characters, not inside entities", () => {
+  const text = formatRequestMessage(request({ client_name: "<".repeat(500), client_message: "\"".repeat(5000) }), null);
+  assertTelegramHtml(text);
+  assert.ok(text.includes("…"));
+});
@@ -0,0 +1,66 @@
+/**
+ * Local stand-in for the Telegram Bot API, for trying `notify-telegram` without a real bot.
+ *
+ *   deno run --allow-net --allow-env supabase/functions/notify-telegram/mock-bot-api.ts
+ *
+ * POST /bot<token>/sendMessage — records the message and answers like Telegram
+ * GET  /messages               — everything received so far, as JSON
+ * DELETE /messages             — clears the list
+ *
+ * MOCK_PORT (default 8081) sets the port; MOCK_FAIL_FIRST=<n> answers the first n sends with
+ * a 500 error to exercise the retry queue. Tests start it in-process with `startMockBotApi`.
+ */
+
+export type ReceivedMessage = { token: string; body: { chat_id?: unknown; text?: string } | null; received_at: string };
+
+export type MockBotApi = {
+  url: string;
+  messages: ReceivedMessage[];
+  shutdown: () => Promise<void>;
+};
+
+export function startMockBotApi(options: { port?: number; failFirst?: number } = {}): MockBotApi {
+  const port = options.port ?? Number(Deno.env.get("MOCK_PORT") ?? 8081);
+  let failuresLeft = options.failFirst ?? Number(Deno.env.get("MOCK_FAIL_FIRST") ?? 0);
+  const messages: ReceivedMessage[] = [];
+
+  const server = Deno.serve({ port, hostname: "127.0.0.1", onListen: () => {} }, async (req) => {
+    const url = new URL(req.url);
+
+    if (url.pathname === "/messages") {
+      if (req.method === "DELETE") messages.length = 0;
+      return Response.json(messages);
+    }
+
+    const match = url.pathname.match(/^\/bot([^/]+)\/sendMessage$/);
+    if (!match || req.method !== "POST") {
+      return Response.json({ ok: false, error_code: 404, description: "Not Found" }, { status: 404 });
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`[mock-bot-api] failing on purpose, ${failuresLeft} failures left`);
+      return Response.json({ ok: false, error_code: 500, description: "Internal Server Error" }, { status: 500 });
+    }
+
+    const body = await req.json().catch(() => null);
+    messages.push({ token: match[1], body, received_at: new Date().toISOString() });
+    console.log("[mock-bot-api] sendMessage", JSON.stringify(body));
+
+    return Response.json({
+      ok: true,
+      result: { message_id: messages.length, date: Math.floor(Date.now() / 1000), text: body?.text },
+    });
+  });
+
+  return {
+    url: `http://127.0.0.1:${(server.addr as Deno.NetAddr).port}`,
+    messages,
+    shutdown: () => server.shutdown(),
+  };
+}
+
+if (import.meta.main) {
+  const mock = startMockBotApi();
+  console.log(`[mock-bot-api] listening on ${mock.url}`);
+}
@@ -0,0 +1,108 @@
+/**
+ * Queue round trip: claim → send to the mock Bot API → failure and backoff → retry → sent.
+ * Needs a local stack with the migrations applied (`supabase start`, then `supabase db reset`)
+ * and its keys in the environment:
+ *   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=<from `supabase status`> \
+ *   deno test --allow-net --allow-env supabase/functions/notify-telegram
+ * Skipped when they are not set.
+ */
+import assert from "node:assert/strict";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { startMockBotApi } from "./mock-bot-api.ts";
+import { assertTelegramHtml } from "./test_html.ts";
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL");
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+const NOTIFY_SECRET = "test-secret";
+
+type NotificationRow = {
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  sent_at: string | null;
+};
+
+Deno.test({
+  name: "a failed send is rescheduled with backoff and delivered on retry",
+  ignore: !supabaseUrl || !serviceRoleKey,
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const mock = startMockBotApi({ port: 0, failFirst: 1 });
+    Deno.env.set("TELEGRAM_API_URL", mock.url);
+    Deno.env.set("TELEGRAM_BOT_TOKEN", "123:test");
+    Deno.env.set("TELEGRAM_CHAT_ID", "-100");
+    Deno.env.set("NOTIFY_SECRET", NOTIFY_SECRET);
+    Deno.env.set("SITE_URL", "https://shop.example");
+    const { handleNotifyRequest } = await import("./handler.ts");
+
+    const db = createClient(supabaseUrl!, serviceRoleKey!, { auth: { persistSession: false } });
+    const callWorker = async () => {
+      const response = await handleNotifyRequest(
+        new Request("http://localhost/notify-telegram", {
+          method: "POST",
+          headers: { Authorization: `Bearer ${NOTIFY_SECRET}` },
+        }),
+      );
+      assert.equal(response.status, 200);
+      return (await response.json()) as { sent: number; failed: number };
+    };
+    const readNotification = async (requestId: number) => {
+      const { data, error } = await db
+        .from("request_notifications")
+        .select("attempts,next_attempt_at,last_error,sent_at")
+        .eq("request_id", requestId)
+        .single();
+      if (error) throw error;
+      return data as NotificationRow;
+    };
+
+    // Whatever an earlier run left due would take the mock's failure
+    await db.from("request_notifications").update({ next_attempt_at: null }).not("next_attempt_at", "is", null);
+
+    const { data: inserted, error: insertError } = await db
+      .from("requests")
+      .insert({ client_name: "Тест <&>", client_phone: "+992 92 123 45 67", client_message: "Позвоните после 18:00", status: "new" })
+      .select("id")
+      .single();
+    if (insertError) throw insertError;
+    const requestId = Number(inserted.id);
+    const { error: itemError } = await db
+      .from("request_items")
+      .insert({ request_id: requestId, product_name: "Ваза & кувшин", quantity: 2, position: 0 });
+    if (itemError) throw itemError;
+
+    try {
+      assert.equal((await readNotification(requestId)).attempts, 0, "the insert trigger queues the request");
+
+      assert.deepEqual(await callWorker(), { sent: 0, failed: 1 });
+      const failed = await readNotification(requestId);
+      assert.equal(failed.attempts, 1);
+      assert.equal(failed.sent_at, null);
+      assert.match(failed.last_error ?? "", /Telegram 500/);
+      const delay = new Date(failed.next_attempt_at!).getTime() - Date.now();
+      assert.ok(delay > 30_000 && delay <= 60_000, `first retry in about a minute, got ${delay} ms`);
+
+      // Nothing is due until the backoff has passed
+      assert.deepEqual(await callWorker(), { sent: 0, failed: 0 });
+
+      await db.from("request_notifications").update({ next_attempt_at: new Date().toISOString() }).eq("request_id", requestId);
+      assert.deepEqual(await callWorker(), { sent: 1, failed: 0 });
+      const sent = await readNotification(requestId);
+      assert.equal(sent.attempts, 2);
+      assert.ok(sent.sent_at);
+      assert.equal(sent.last_error, null);
+      assert.equal(sent.next_attempt_at, null);
+
+      assert.equal(mock.messages.length, 1);
+      const text = mock.messages[0].body?.text ?? "";
+      assert.ok(text.includes(`#${requestId}`));
+      assert.ok(text.includes("Тест &lt;&amp;&gt;"));
+      assert.ok(text.includes("+992921234567"));
+      assertTelegramHtml(text);
+    } finally {
+      await db.from("requests").delete().eq("id", requestId);
+      await mock.shutdown();
+    }
+  },
+});
@@ -0,0 +1,41 @@
+/** Test helper: checks a message against the subset of HTML the bot sends. */
+
+const ALLOWED_TAGS = new Set(["b", "a"]);
+const ENTITIES = new Set(["&amp;", "&lt;", "&gt;", "&quot;"]);
+
+function checkEntities(text: string, context: string) {
+  for (const match of text.matchAll(/&[^;\s]*;?/g)) {
+    if (!ENTITIES.has(match[0])) throw new Error(`Bad entity ${match[0]} in ${context}`);
+  }
+}
+
+/** Throws unless tags are known and balanced, attributes are quoted and every `&` starts an entity. */
+export function assertTelegramHtml(text: string) {
+  const stack: string[] = [];
+  let rest = text;
+
+  while (rest.length) {
+    const lt = rest.indexOf("<");
+    const plain = lt === -1 ? rest : rest.slice(0, lt);
+    if (plain.includes(">")) throw new Error(`Stray ">" in "${plain}"`);
+    checkEntities(plain, "text");
+    if (lt === -1) break;
+
+    const gt = rest.indexOf(">", lt);
+    if (gt === -1) throw new Error(`Unclosed tag at "${rest.slice(lt, lt + 40)}"`);
+    const tag = rest.slice(lt, gt + 1);
+    const match = tag.match(/^<(\/?)([a-z]+)((?:\s+[a-z]+="[^"<>]*")*)>$/);
+    if (!match || !ALLOWED_TAGS.has(match[2])) throw new Error(`Unexpected tag ${tag}`);
+    checkEntities(match[3], tag);
+
+    if (match[1]) {
+      if (stack.pop() !== match[2]) throw new Error(`Unbalanced ${tag}`);
+    } else {
+      if (match[2] === "a" && !/\shref="/.test(match[3])) throw new Error(`Link without href: ${tag}`);
+      stack.push(match[2]);
+    }
+    rest = rest.slice(gt + 1);
+  }
+
+  if (stack.length) throw new Error(`Unclosed <${stack.join(">, <")}>`);
+}
@@ -0,0 +1,32 @@
+-- Storefront product search over name + description.
+--
+-- `search_text` is a lower-cased copy of name/description with ё folded to е.
+-- Cyrillic (incl. Tajik letters) is folded explicitly via translate() so the
+-- result does not depend on the database locale; the client applies the same
+-- normalization to the query and matches it with ILIKE.
+
+alter table public.products add column if not exists description text;
+
+create or replace function public.search_normalize(value text)
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select translate(
+    lower(coalesce(value, '')),
+    'АБВГДЕЁЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯҒӢҚӮҲҶё',
+    'абвгдеежзийклмнопрстуфхцчшщъыьэюяғӣқӯҳҷе'
+  );
+$$;
+
+alter table public.products
+  add column if not exists search_text text
+  generated always as (
+    public.search_normalize(coalesce(name, '') || ' ' || coalesce(description, ''))
+  ) stored;
+
+create extension if not exists pg_trgm with schema extensions;
+
+create index if not exists products_search_text_trgm_idx
+  on public.products using gin (search_text extensions.gin_trgm_ops);
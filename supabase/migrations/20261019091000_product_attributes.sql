@@ -0,0 +1,9 @@
+-- Product description and structured attributes shown on the card / detail page.
+
+alter table public.products
+  add column if not exists description text,
+  add column if not exists material text,
+  add column if not exists dimensions text,
+  add column if not exists weight text,
+  add column if not exists color text,
+  add column if not exists care_instructions text;
@@ -0,0 +1,31 @@
+-- Ordered image set per product. `products.image` keeps mirroring the first
+-- (primary) image so listings and requests do not need to join this table.
+
+create table if not exists public.product_images (
+  id bigint generated always as identity primary key,
+  product_id bigint not null references public.products (id) on delete cascade,
+  url text not null,
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists product_images_product_position_idx
+  on public.product_images (product_id, position);
+
+-- Backfill: every existing product image becomes the primary image of its product.
+insert into public.product_images (product_id, url, position)
+select p.id, p.image, 0
+from public.products p
+where p.image is not null
+  and not exists (select 1 from public.product_images i where i.product_id = p.id);
+
+alter table public.product_images enable row level security;
+
+-- Same access as `products`: the storefront reads, the admin panel writes with the anon key.
+drop policy if exists "product_images read" on public.product_images;
+create policy "product_images read" on public.product_images
+  for select to anon, authenticated using (true);
+
+drop policy if exists "product_images write" on public.product_images;
+create policy "product_images write" on public.product_images
+  for all to anon, authenticated using (true) with check (true);
@@ -0,0 +1,32 @@
+-- Product variants (size / colour / glaze ...) with their own price, stock and image.
+-- Requests remember which variant the customer asked about; `variant_name` is a
+-- snapshot so the request stays readable after the variant is renamed or removed.
+
+create table if not exists public.product_variants (
+  id bigint generated always as identity primary key,
+  product_id bigint not null references public.products (id) on delete cascade,
+  name text not null,
+  price numeric(12, 2),
+  in_stock boolean not null default true,
+  image text,
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists product_variants_product_position_idx
+  on public.product_variants (product_id, position);
+
+alter table public.requests
+  add column if not exists variant_id bigint references public.product_variants (id) on delete set null,
+  add column if not exists variant_name text;
+
+alter table public.product_variants enable row level security;
+
+-- Same access as `products`: the storefront reads, the admin panel writes with the anon key.
+drop policy if exists "product_variants read" on public.product_variants;
+create policy "product_variants read" on public.product_variants
+  for select to anon, authenticated using (true);
+
+drop policy if exists "product_variants write" on public.product_variants;
+create policy "product_variants write" on public.product_variants
+  for all to anon, authenticated using (true) with check (true);
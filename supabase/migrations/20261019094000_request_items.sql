@@ -0,0 +1,95 @@
+-- Multi-item inquiries: one request from the storefront basket with several line items.
+-- `product_name` / `variant_name` are snapshots so the request stays readable after the
+-- product or variant is renamed or removed. `requests.product_id` keeps pointing at the
+-- first item for the existing admin views and stats.
+
+create table if not exists public.request_items (
+  id bigint generated always as identity primary key,
+  request_id bigint not null references public.requests (id) on delete cascade,
+  product_id bigint references public.products (id) on delete set null,
+  variant_id bigint references public.product_variants (id) on delete set null,
+  product_name text not null,
+  variant_name text,
+  quantity integer not null default 1 check (quantity between 1 and 99),
+  position integer not null default 0
+);
+
+create index if not exists request_items_request_position_idx
+  on public.request_items (request_id, position);
+
+alter table public.request_items enable row level security;
+
+-- The admin panel reads line items with the anon key; rows are only created by `submit_inquiry`.
+drop policy if exists "request_items read" on public.request_items;
+create policy "request_items read" on public.request_items
+  for select to anon, authenticated using (true);
+
+-- Creates the request and its line items in one transaction.
+-- `p_items` is a JSON array of { product_id, variant_id?, quantity }; unknown products are skipped.
+create or replace function public.submit_inquiry(
+  p_client_name text,
+  p_client_phone text,
+  p_client_message text,
+  p_items jsonb
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_request_id bigint;
+  first_item record;
+begin
+  if jsonb_typeof(p_items) is distinct from 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Inquiry must contain at least one item';
+  end if;
+
+  if jsonb_array_length(p_items) > 50 then
+    raise exception 'Inquiry contains too many items';
+  end if;
+
+  if coalesce(length(trim(p_client_phone)), 0) < 5 then
+    raise exception 'Client phone is required';
+  end if;
+
+  insert into requests (client_name, client_phone, client_message, status)
+  values (nullif(trim(p_client_name), ''), trim(p_client_phone), nullif(trim(p_client_message), ''), 'new')
+  returning id into new_request_id;
+
+  insert into request_items (request_id, product_id, variant_id, product_name, variant_name, quantity, position)
+  select
+    new_request_id,
+    p.id,
+    v.id,
+    p.name,
+    v.name,
+    greatest(1, least(99, coalesce((item ->> 'quantity')::integer, 1))),
+    (ord - 1)::integer
+  from jsonb_array_elements(p_items) with ordinality as t (item, ord)
+  join products p on p.id = (item ->> 'product_id')::bigint
+  left join product_variants v
+    on v.id = (item ->> 'variant_id')::bigint
+   and v.product_id = p.id;
+
+  select product_id, variant_id, variant_name into first_item
+  from request_items
+  where request_id = new_request_id
+  order by position
+  limit 1;
+
+  if not found then
+    raise exception 'Inquiry products no longer exist';
+  end if;
+
+  update requests
+  set product_id = first_item.product_id,
+      variant_id = first_item.variant_id,
+      variant_name = first_item.variant_name
+  where id = new_request_id;
+
+  return new_request_id;
+end;
+$$;
+
+grant execute on function public.submit_inquiry(text, text, text, jsonb) to anon, authenticated;
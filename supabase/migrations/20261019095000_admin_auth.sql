@@ -0,0 +1,84 @@
+-- Admin panel signs in with Supabase Auth (email/password). From now on the anon key
+-- is read-only for the catalog and may only create requests; every write from the
+-- admin panel runs as the `authenticated` role.
+--
+-- Admin accounts are created (invited) from the Supabase dashboard; public sign-ups
+-- must stay disabled in Auth settings, otherwise anyone could become `authenticated`.
+
+-- Drop whatever policies existed before (including the old "anon can write" ones,
+-- whose names differ between environments) and recreate them explicitly.
+do $$
+declare
+  pol record;
+begin
+  for pol in
+    select policyname, tablename
+    from pg_policies
+    where schemaname = 'public'
+      and tablename in ('categories', 'products', 'product_images', 'product_variants', 'requests', 'request_items')
+  loop
+    execute format('drop policy %I on public.%I', pol.policyname, pol.tablename);
+  end loop;
+
+  for pol in
+    select policyname
+    from pg_policies
+    where schemaname = 'storage'
+      and tablename = 'objects'
+      and (coalesce(qual, '') || coalesce(with_check, '')) like '%product-images%'
+  loop
+    execute format('drop policy %I on storage.objects', pol.policyname);
+  end loop;
+end;
+$$;
+
+alter table public.categories enable row level security;
+alter table public.products enable row level security;
+alter table public.requests enable row level security;
+
+-- Catalog: everyone reads, signed-in admins write.
+create policy "categories read" on public.categories
+  for select to anon, authenticated using (true);
+create policy "categories write" on public.categories
+  for all to authenticated using (true) with check (true);
+
+create policy "products read" on public.products
+  for select to anon, authenticated using (true);
+create policy "products write" on public.products
+  for all to authenticated using (true) with check (true);
+
+create policy "product_images read" on public.product_images
+  for select to anon, authenticated using (true);
+create policy "product_images write" on public.product_images
+  for all to authenticated using (true) with check (true);
+
+create policy "product_variants read" on public.product_variants
+  for select to anon, authenticated using (true);
+create policy "product_variants write" on public.product_variants
+  for all to authenticated using (true) with check (true);
+
+-- Requests: visitors can only create new ones (they cannot read them back);
+-- multi-item inquiries go through `submit_inquiry`, which is security definer.
+create policy "requests insert" on public.requests
+  for insert to anon, authenticated
+  with check (coalesce(status, 'new') = 'new');
+create policy "requests admin" on public.requests
+  for all to authenticated using (true) with check (true);
+
+create policy "request_items admin" on public.request_items
+  for all to authenticated using (true) with check (true);
+
+-- Product photos: public bucket for reading, uploads and removals by admins only.
+create policy "product-images read" on storage.objects
+  for select to anon, authenticated
+  using (bucket_id = 'product-images');
+create policy "product-images insert" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'product-images');
+create policy "product-images update" on storage.objects
+  for update to authenticated
+  using (bucket_id = 'product-images')
+  with check (bucket_id = 'product-images');
+create policy "product-images delete" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'product-images');
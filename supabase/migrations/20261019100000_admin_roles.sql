@@ -0,0 +1,124 @@
+-- Admin roles. A signed-in user without a row in `admin_users` has no access at all.
+--   owner   — everything, including deleting categories and products
+--   manager — requests and statistics
+--   editor  — catalog (categories, products, photos, variants) without deletions
+-- The admin panel mirrors this in client/src/lib/adminRoles.ts.
+--
+-- Assign roles from the SQL editor, e.g.
+--   insert into public.admin_users (user_id, role)
+--   select id, 'manager' from auth.users where email = 'manager@example.com';
+
+create table if not exists public.admin_users (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  role text not null check (role in ('owner', 'manager', 'editor')),
+  created_at timestamptz not null default now()
+);
+
+-- Until now every signed-in user was a full admin: keep existing accounts working as owners.
+insert into public.admin_users (user_id, role)
+select id, 'owner'
+from auth.users
+where not exists (select 1 from public.admin_users)
+on conflict (user_id) do nothing;
+
+-- Security definer so policies can call it without tripping over admin_users' own RLS.
+create or replace function public.has_admin_role(variadic roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from admin_users where user_id = auth.uid() and role = any (roles)
+  );
+$$;
+
+grant execute on function public.has_admin_role(text[]) to authenticated;
+
+alter table public.admin_users enable row level security;
+
+drop policy if exists "admin_users read" on public.admin_users;
+create policy "admin_users read" on public.admin_users
+  for select to authenticated
+  using (user_id = auth.uid() or public.has_admin_role('owner'));
+
+drop policy if exists "admin_users write" on public.admin_users;
+create policy "admin_users write" on public.admin_users
+  for all to authenticated
+  using (public.has_admin_role('owner'))
+  with check (public.has_admin_role('owner'));
+
+-- Catalog: editors and owners create and edit, only owners delete.
+drop policy if exists "categories write" on public.categories;
+drop policy if exists "categories insert" on public.categories;
+drop policy if exists "categories update" on public.categories;
+drop policy if exists "categories delete" on public.categories;
+create policy "categories insert" on public.categories
+  for insert to authenticated with check (public.has_admin_role('owner', 'editor'));
+create policy "categories update" on public.categories
+  for update to authenticated
+  using (public.has_admin_role('owner', 'editor'))
+  with check (public.has_admin_role('owner', 'editor'));
+create policy "categories delete" on public.categories
+  for delete to authenticated using (public.has_admin_role('owner'));
+
+drop policy if exists "products write" on public.products;
+drop policy if exists "products insert" on public.products;
+drop policy if exists "products update" on public.products;
+drop policy if exists "products delete" on public.products;
+create policy "products insert" on public.products
+  for insert to authenticated with check (public.has_admin_role('owner', 'editor'));
+create policy "products update" on public.products
+  for update to authenticated
+  using (public.has_admin_role('owner', 'editor'))
+  with check (public.has_admin_role('owner', 'editor'));
+create policy "products delete" on public.products
+  for delete to authenticated using (public.has_admin_role('owner'));
+
+-- Photos and variants are rewritten as part of editing a product, so editors may delete them.
+drop policy if exists "product_images write" on public.product_images;
+create policy "product_images write" on public.product_images
+  for all to authenticated
+  using (public.has_admin_role('owner', 'editor'))
+  with check (public.has_admin_role('owner', 'editor'));
+
+drop policy if exists "product_variants write" on public.product_variants;
+create policy "product_variants write" on public.product_variants
+  for all to authenticated
+  using (public.has_admin_role('owner', 'editor'))
+  with check (public.has_admin_role('owner', 'editor'));
+
+drop policy if exists "product-images insert" on storage.objects;
+drop policy if exists "product-images update" on storage.objects;
+drop policy if exists "product-images delete" on storage.objects;
+create policy "product-images insert" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'product-images' and public.has_admin_role('owner', 'editor'));
+create policy "product-images update" on storage.objects
+  for update to authenticated
+  using (bucket_id = 'product-images' and public.has_admin_role('owner', 'editor'))
+  with check (bucket_id = 'product-images' and public.has_admin_role('owner', 'editor'));
+create policy "product-images delete" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'product-images' and public.has_admin_role('owner', 'editor'));
+
+-- Requests: managers and owners read and update, only owners delete.
+-- Inserts from the storefront keep the "requests insert" policy.
+drop policy if exists "requests admin" on public.requests;
+drop policy if exists "requests read" on public.requests;
+drop policy if exists "requests update" on public.requests;
+drop policy if exists "requests delete" on public.requests;
+create policy "requests read" on public.requests
+  for select to authenticated using (public.has_admin_role('owner', 'manager'));
+create policy "requests update" on public.requests
+  for update to authenticated
+  using (public.has_admin_role('owner', 'manager'))
+  with check (public.has_admin_role('owner', 'manager'));
+create policy "requests delete" on public.requests
+  for delete to authenticated using (public.has_admin_role('owner'));
+
+drop policy if exists "request_items admin" on public.request_items;
+drop policy if exists "request_items read" on public.request_items;
+create policy "request_items read" on public.request_items
+  for select to authenticated using (public.has_admin_role('owner', 'manager'));
@@ -0,0 +1,92 @@
+-- Audit log of admin changes: categories and products (create / update / delete) and
+-- request status changes. Rows are written by triggers, so every write path is covered
+-- and the actor is taken from the session (`auth.uid()`), not from the client.
+-- Updates store only the changed columns in `before` / `after`.
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  actor_id uuid references auth.users (id) on delete set null,
+  actor_email text,
+  entity text not null check (entity in ('category', 'product', 'request')),
+  entity_id bigint not null,
+  -- Name of the category / product (or the request's client) at the time of the change
+  entity_label text,
+  action text not null check (action in ('create', 'update', 'delete')),
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_created_at_idx on public.audit_log (created_at desc);
+create index if not exists audit_log_entity_idx on public.audit_log (entity, entity_id);
+
+-- tg_argv[0]: entity name; tg_argv[1..]: columns that are never recorded.
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  new_row jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  row_data jsonb := coalesce(new_row, old_row);
+  ignored text[] := coalesce(tg_argv[1:], '{}');
+  before_data jsonb;
+  after_data jsonb;
+begin
+  if tg_op = 'UPDATE' then
+    select jsonb_object_agg(key, old_row -> key), jsonb_object_agg(key, new_row -> key)
+    into before_data, after_data
+    from jsonb_object_keys(new_row) as key
+    where (old_row -> key) is distinct from (new_row -> key)
+      and key <> all (ignored);
+
+    if before_data is null then
+      return new;
+    end if;
+  else
+    before_data := old_row - ignored;
+    after_data := new_row - ignored;
+  end if;
+
+  insert into audit_log (actor_id, actor_email, entity, entity_id, entity_label, action, before, after)
+  values (
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    tg_argv[0],
+    (row_data ->> 'id')::bigint,
+    coalesce(row_data ->> 'name', row_data ->> 'client_name', row_data ->> 'client_phone'),
+    case tg_op when 'INSERT' then 'create' when 'UPDATE' then 'update' else 'delete' end,
+    before_data,
+    after_data
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists audit_categories on public.categories;
+create trigger audit_categories
+  after insert or update or delete on public.categories
+  for each row execute function public.audit_row_change('category', 'created_at');
+
+drop trigger if exists audit_products on public.products;
+create trigger audit_products
+  after insert or update or delete on public.products
+  for each row execute function public.audit_row_change('product', 'created_at', 'search_text');
+
+-- Requests are created by visitors; only status changes made in the admin panel are logged.
+drop trigger if exists audit_request_status on public.requests;
+create trigger audit_request_status
+  after update of status on public.requests
+  for each row
+  when (old.status is distinct from new.status)
+  execute function public.audit_row_change('request', 'created_at');
+
+alter table public.audit_log enable row level security;
+
+-- Readable by owners only; there is no write policy, rows come from the trigger.
+drop policy if exists "audit_log read" on public.audit_log;
+create policy "audit_log read" on public.audit_log
+  for select to authenticated using (public.has_admin_role('owner'));
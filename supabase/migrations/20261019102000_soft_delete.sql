@@ -0,0 +1,138 @@
+-- Soft delete for products and categories. "Deleting" in the admin panel sets `deleted_at`
+-- and moves the item to the trash; the storefront only shows rows where it is null.
+-- Permanent purge (manual, or automatically after the retention period when an owner opens
+-- the trash) hard-deletes the row and only then removes photo files from storage.
+
+alter table public.categories add column if not exists deleted_at timestamptz;
+alter table public.products add column if not exists deleted_at timestamptz;
+
+create index if not exists categories_deleted_at_idx
+  on public.categories (deleted_at) where deleted_at is not null;
+create index if not exists products_deleted_at_idx
+  on public.products (deleted_at) where deleted_at is not null;
+
+-- Visitors never see trashed rows; signed-in admins see everything (the trash view needs them).
+drop policy if exists "categories read" on public.categories;
+create policy "categories read" on public.categories
+  for select to anon using (deleted_at is null);
+drop policy if exists "categories admin read" on public.categories;
+create policy "categories admin read" on public.categories
+  for select to authenticated using (true);
+
+drop policy if exists "products read" on public.products;
+create policy "products read" on public.products
+  for select to anon using (deleted_at is null);
+drop policy if exists "products admin read" on public.products;
+create policy "products admin read" on public.products
+  for select to authenticated using (true);
+
+-- Editors may update products and categories, but moving to / restoring from the trash
+-- is a deletion and stays with owners (RLS cannot restrict single columns).
+create or replace function public.guard_soft_delete()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.deleted_at is distinct from old.deleted_at and not public.has_admin_role('owner') then
+    raise exception 'Only owners can delete or restore %', tg_table_name
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_soft_delete_categories on public.categories;
+create trigger guard_soft_delete_categories
+  before update of deleted_at on public.categories
+  for each row execute function public.guard_soft_delete();
+
+drop trigger if exists guard_soft_delete_products on public.products;
+create trigger guard_soft_delete_products
+  before update of deleted_at on public.products
+  for each row execute function public.guard_soft_delete();
+
+-- A category goes to the trash together with its products, and restoring it brings back the
+-- products trashed with it (same `deleted_at`); products trashed on their own stay there.
+create or replace function public.cascade_category_trash()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if old.deleted_at is null and new.deleted_at is not null then
+    update products set deleted_at = new.deleted_at
+    where category_id = new.id and deleted_at is null;
+  elsif old.deleted_at is not null and new.deleted_at is null then
+    update products set deleted_at = null
+    where category_id = new.id and deleted_at = old.deleted_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cascade_category_trash on public.categories;
+create trigger cascade_category_trash
+  after update of deleted_at on public.categories
+  for each row execute function public.cascade_category_trash();
+
+-- Audit: trashing is logged as "delete", restoring as "restore", and the final hard
+-- delete as "purge".
+alter table public.audit_log drop constraint if exists audit_log_action_check;
+alter table public.audit_log
+  add constraint audit_log_action_check
+  check (action in ('create', 'update', 'delete', 'restore', 'purge'));
+
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  new_row jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  row_data jsonb := coalesce(new_row, old_row);
+  ignored text[] := coalesce(tg_argv[1:], '{}');
+  audit_action text;
+  before_data jsonb;
+  after_data jsonb;
+begin
+  if tg_op = 'UPDATE' then
+    select jsonb_object_agg(key, old_row -> key), jsonb_object_agg(key, new_row -> key)
+    into before_data, after_data
+    from jsonb_object_keys(new_row) as key
+    where (old_row -> key) is distinct from (new_row -> key)
+      and key <> all (ignored);
+
+    if before_data is null then
+      return new;
+    end if;
+
+    audit_action := case
+      when (old_row ->> 'deleted_at') is null and (new_row ->> 'deleted_at') is not null then 'delete'
+      when (old_row ->> 'deleted_at') is not null and (new_row ->> 'deleted_at') is null then 'restore'
+      else 'update'
+    end;
+  else
+    before_data := old_row - ignored;
+    after_data := new_row - ignored;
+    audit_action := case tg_op when 'INSERT' then 'create' else 'purge' end;
+  end if;
+
+  insert into audit_log (actor_id, actor_email, entity, entity_id, entity_label, action, before, after)
+  values (
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    tg_argv[0],
+    (row_data ->> 'id')::bigint,
+    coalesce(row_data ->> 'name', row_data ->> 'client_name', row_data ->> 'client_phone'),
+    audit_action,
+    before_data,
+    after_data
+  );
+
+  return coalesce(new, old);
+end;
+$$;
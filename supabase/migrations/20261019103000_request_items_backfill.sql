@@ -0,0 +1,11 @@
+-- Requests sent before multi-item inquiries only have `requests.product_id`. Give them a
+-- line item too, so the admin filters by product / category can rely on `request_items`
+-- alone.
+
+insert into public.request_items (request_id, product_id, variant_id, product_name, variant_name, quantity, position)
+select r.id, r.product_id, r.variant_id, p.name, r.variant_name, 1, 0
+from public.requests r
+join public.products p on p.id = r.product_id
+where not exists (select 1 from public.request_items i where i.request_id = r.id);
+
+create index if not exists request_items_product_idx on public.request_items (product_id);
@@ -0,0 +1,84 @@
+-- Request follow-up: an assigned staff member, a "call back on" date and internal notes.
+-- Notes are threaded: a reply points at the note it answers via `parent_id`. Deleting a note
+-- keeps its replies, they move to the top level.
+
+alter table public.requests
+  add column if not exists assignee_id uuid references public.admin_users (user_id) on delete set null,
+  add column if not exists follow_up_on date;
+
+create index if not exists requests_follow_up_on_idx
+  on public.requests (follow_up_on) where follow_up_on is not null;
+
+create table if not exists public.request_notes (
+  id bigint generated always as identity primary key,
+  request_id bigint not null references public.requests (id) on delete cascade,
+  parent_id bigint references public.request_notes (id) on delete set null,
+  author_id uuid default auth.uid() references auth.users (id) on delete set null,
+  author_email text default (auth.jwt() ->> 'email'),
+  body text not null check (length(trim(body)) between 1 and 2000),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists request_notes_request_idx
+  on public.request_notes (request_id, created_at);
+
+-- A reply must belong to the same request as the note it answers.
+create or replace function public.check_request_note_parent()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.parent_id is not null and not exists (
+    select 1 from public.request_notes
+    where id = new.parent_id and request_id = new.request_id
+  ) then
+    raise exception 'Reply must belong to the same request' using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_request_note_parent on public.request_notes;
+create trigger check_request_note_parent
+  before insert or update of parent_id, request_id on public.request_notes
+  for each row execute function public.check_request_note_parent();
+
+alter table public.request_notes enable row level security;
+
+-- Same audience as the requests themselves; authors are stamped by the column defaults.
+drop policy if exists "request_notes read" on public.request_notes;
+create policy "request_notes read" on public.request_notes
+  for select to authenticated using (public.has_admin_role('owner', 'manager'));
+
+drop policy if exists "request_notes insert" on public.request_notes;
+create policy "request_notes insert" on public.request_notes
+  for insert to authenticated
+  with check (public.has_admin_role('owner', 'manager') and author_id = auth.uid());
+
+drop policy if exists "request_notes delete" on public.request_notes;
+create policy "request_notes delete" on public.request_notes
+  for delete to authenticated
+  using (
+    public.has_admin_role('owner')
+    or (author_id = auth.uid() and public.has_admin_role('owner', 'manager'))
+  );
+
+-- Assignee picker: staff who can work on requests (owners and managers; editors cannot see
+-- them). `admin_users` is only readable by owners and the emails live in auth.users, so
+-- managers get the list through this function; other callers get an empty list.
+create or replace function public.list_admin_staff()
+returns table (user_id uuid, email text, role text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select a.user_id, u.email::text, a.role
+  from admin_users a
+  join auth.users u on u.id = a.user_id
+  where a.role in ('owner', 'manager')
+    and public.has_admin_role('owner', 'manager')
+  order by u.email;
+$$;
+
+grant execute on function public.list_admin_staff() to authenticated;
@@ -0,0 +1,120 @@
+-- Every status change of a request, with time and actor, for the timeline in the request
+-- dialog and the response-time metrics on the stats tab. The creation of a request is the
+-- first entry (from_status is null, actor is null — the visitor).
+
+create table if not exists public.request_status_history (
+  id bigint generated always as identity primary key,
+  request_id bigint not null references public.requests (id) on delete cascade,
+  from_status text,
+  to_status text,
+  actor_id uuid references auth.users (id) on delete set null,
+  actor_email text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists request_status_history_request_idx
+  on public.request_status_history (request_id, created_at);
+
+alter table public.request_status_history enable row level security;
+
+-- Same audience as the requests; rows only come from the trigger below.
+drop policy if exists "request_status_history read" on public.request_status_history;
+create policy "request_status_history read" on public.request_status_history
+  for select to authenticated using (public.has_admin_role('owner', 'manager'));
+
+create or replace function public.record_request_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into request_status_history (request_id, from_status, to_status, actor_id, actor_email, created_at)
+  values (
+    new.id,
+    case when tg_op = 'UPDATE' then old.status end,
+    new.status,
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    case when tg_op = 'INSERT' then new.created_at else now() end
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists record_request_status_insert on public.requests;
+create trigger record_request_status_insert
+  after insert on public.requests
+  for each row execute function public.record_request_status();
+
+drop trigger if exists record_request_status_update on public.requests;
+create trigger record_request_status_update
+  after update of status on public.requests
+  for each row
+  when (old.status is distinct from new.status)
+  execute function public.record_request_status();
+
+-- Existing requests still in "new" have a complete history: just the creation. Requests that
+-- already moved on get no entry, since their transitions were never stored; the metrics
+-- below skip them.
+insert into public.request_status_history (request_id, from_status, to_status, created_at)
+select r.id, null, r.status, r.created_at
+from public.requests r
+where coalesce(r.status, 'new') = 'new'
+  and not exists (select 1 from public.request_status_history h where h.request_id = r.id);
+
+-- Median and p90 (in seconds) of
+--   first response — creation until staff first moved the request away from "new";
+--   done           — creation until staff first marked it "done".
+-- Staff changes always carry an actor; the creation entry never does.
+-- Only requests created in [p_from, p_to) are considered; nulls mean an open range.
+-- Security invoker: the caller needs read access to requests and their history.
+create or replace function public.request_response_times(p_from timestamptz default null, p_to timestamptz default null)
+returns table (
+  first_response_count bigint,
+  first_response_median double precision,
+  first_response_p90 double precision,
+  done_count bigint,
+  done_median double precision,
+  done_p90 double precision
+)
+language sql
+stable
+set search_path = public
+as $$
+  with scoped as (
+    select r.id, r.created_at
+    from requests r
+    where (p_from is null or r.created_at >= p_from)
+      and (p_to is null or r.created_at < p_to)
+  ),
+  durations as (
+    select
+      s.id,
+      extract(epoch from (
+        select min(h.created_at) from request_status_history h
+        where h.request_id = s.id and h.actor_id is not null
+          and coalesce(h.from_status, 'new') = 'new' and coalesce(h.to_status, 'new') <> 'new'
+      ) - s.created_at) as first_response,
+      extract(epoch from (
+        select min(h.created_at) from request_status_history h
+        where h.request_id = s.id and h.actor_id is not null and h.to_status = 'done'
+      ) - s.created_at) as done
+    from scoped s
+    -- Requests without a creation entry have an unknown history (see the backfill above)
+    where exists (
+      select 1 from request_status_history h
+      where h.request_id = s.id and h.actor_id is null and h.from_status is null
+    )
+  )
+  select
+    count(first_response),
+    percentile_cont(0.5) within group (order by first_response),
+    percentile_cont(0.9) within group (order by first_response),
+    count(done),
+    percentile_cont(0.5) within group (order by done),
+    percentile_cont(0.9) within group (order by done)
+  from durations;
+$$;
+
+grant execute on function public.request_response_times(timestamptz, timestamptz) to authenticated;
@@ -0,0 +1,170 @@
+-- Customer directory: requests are grouped by the client's normalized phone number.
+-- A customer can have several phones once duplicates are merged, so phones live in their
+-- own table. New requests are attached to a customer by a trigger.
+
+-- Digits only; a 9-digit local number gets the default country code (Tajikistan, 992).
+create or replace function public.normalize_phone(p_phone text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when digits = '' then null
+    when length(digits) = 9 then '+992' || digits
+    else '+' || digits
+  end
+  from (select regexp_replace(coalesce(p_phone, ''), '\D', '', 'g') as digits) d;
+$$;
+
+create table if not exists public.customers (
+  id bigint generated always as identity primary key,
+  name text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.customer_phones (
+  phone text primary key,
+  customer_id bigint not null references public.customers (id) on delete cascade
+);
+
+create index if not exists customer_phones_customer_idx on public.customer_phones (customer_id);
+
+alter table public.requests
+  add column if not exists customer_id bigint references public.customers (id) on delete set null;
+
+create index if not exists requests_customer_idx on public.requests (customer_id);
+
+-- Finds the customer by phone or creates one. A non-empty name is only stored when the customer
+-- has none: anyone can submit a form with someone's phone, so it must not rename the customer.
+-- The name typed each time stays on the request itself.
+create or replace function public.resolve_customer(p_phone text, p_name text)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_phone text := public.normalize_phone(p_phone);
+  v_name text := nullif(trim(p_name), '');
+  v_customer_id bigint;
+begin
+  if v_phone is null then
+    return null;
+  end if;
+
+  select customer_id into v_customer_id from customer_phones where phone = v_phone;
+
+  if v_customer_id is null then
+    insert into customers (name) values (v_name) returning id into v_customer_id;
+    insert into customer_phones (phone, customer_id) values (v_phone, v_customer_id)
+    on conflict (phone) do nothing;
+    -- A concurrent request may have registered the phone first
+    if not found then
+      delete from customers where id = v_customer_id;
+      select customer_id into v_customer_id from customer_phones where phone = v_phone;
+    end if;
+  elsif v_name is not null then
+    update customers set name = v_name where id = v_customer_id and name is null;
+  end if;
+
+  return v_customer_id;
+end;
+$$;
+
+revoke execute on function public.resolve_customer(text, text) from public, anon, authenticated;
+
+-- Security definer: visitors insert requests but have no access to the customer tables.
+create or replace function public.assign_request_customer()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.customer_id := public.resolve_customer(new.client_phone, new.client_name);
+  return new;
+end;
+$$;
+
+drop trigger if exists assign_request_customer on public.requests;
+create trigger assign_request_customer
+  before insert on public.requests
+  for each row execute function public.assign_request_customer();
+
+-- Existing requests, oldest first so the customer keeps the first name given.
+do $$
+declare
+  r record;
+begin
+  for r in
+    select id, client_name, client_phone from public.requests
+    where customer_id is null
+    order by created_at
+  loop
+    update public.requests
+    set customer_id = public.resolve_customer(r.client_phone, r.client_name)
+    where id = r.id;
+  end loop;
+end
+$$;
+
+-- Moves phones and requests of `p_source` to `p_target` and removes `p_source`.
+-- No role check: for `merge_customers` and data migrations only.
+create or replace function public.merge_customers_unchecked(p_target bigint, p_source bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_target = p_source then
+    raise exception 'Cannot merge a customer into itself';
+  end if;
+  if not exists (select 1 from customers where id = p_target) then
+    raise exception 'Customer % not found', p_target;
+  end if;
+
+  update customer_phones set customer_id = p_target where customer_id = p_source;
+  update requests set customer_id = p_target where customer_id = p_source;
+  update customers t
+  set name = coalesce(t.name, s.name), created_at = least(t.created_at, s.created_at)
+  from customers s
+  where t.id = p_target and s.id = p_source;
+  delete from customers where id = p_source;
+end;
+$$;
+
+revoke execute on function public.merge_customers_unchecked(bigint, bigint) from public, anon, authenticated;
+
+create or replace function public.merge_customers(p_target bigint, p_source bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_admin_role('owner', 'manager') then
+    raise exception 'Not allowed' using errcode = '42501';
+  end if;
+  perform public.merge_customers_unchecked(p_target, p_source);
+end;
+$$;
+
+grant execute on function public.merge_customers(bigint, bigint) to authenticated;
+
+alter table public.customers enable row level security;
+alter table public.customer_phones enable row level security;
+
+-- Same audience as the requests.
+drop policy if exists "customers read" on public.customers;
+create policy "customers read" on public.customers
+  for select to authenticated using (public.has_admin_role('owner', 'manager'));
+drop policy if exists "customers update" on public.customers;
+create policy "customers update" on public.customers
+  for update to authenticated
+  using (public.has_admin_role('owner', 'manager'))
+  with check (public.has_admin_role('owner', 'manager'));
+
+drop policy if exists "customer_phones read" on public.customer_phones;
+create policy "customer_phones read" on public.customer_phones
+  for select to authenticated using (public.has_admin_role('owner', 'manager'));
@@ -0,0 +1,83 @@
+-- Phone numbers are stored in E.164. Mirrors `normalizePhone` in client/src/lib/phone.ts:
+-- a local 9-digit number (or 10 digits with a leading trunk 0) gets the default country
+-- code 992, a leading "00" is the international call prefix. Operator prefixes are only
+-- checked by the forms, so numbers from new ranges still group correctly.
+create or replace function public.normalize_phone(p_phone text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when digits = '' then null
+    when not international and length(digits) = 10 and digits like '0%' and digits not like '00%'
+      then '+992' || substr(digits, 2)
+    when not international and length(digits) = 9 then '+992' || digits
+    when not international and digits like '00%' then '+' || substr(digits, 3)
+    else '+' || digits
+  end
+  from (
+    select
+      regexp_replace(coalesce(p_phone, ''), '\D', '', 'g') as digits,
+      btrim(coalesce(p_phone, '')) like '+%' as international
+  ) d;
+$$;
+
+-- Normalized copy for the admin search: `92 123 45 67` matches however the number was typed.
+alter table public.requests
+  add column if not exists client_phone_e164 text
+  generated always as (public.normalize_phone(client_phone)) stored;
+
+create index if not exists requests_client_phone_e164_idx on public.requests (client_phone_e164);
+
+-- New requests are saved in E.164; a number that cannot be one is rejected.
+-- Existing rows keep what the visitor typed.
+create or replace function public.normalize_request_phone()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.client_phone is not null then
+    new.client_phone := public.normalize_phone(new.client_phone);
+    if new.client_phone is null or new.client_phone !~ '^\+[1-9][0-9]{7,14}$' then
+      raise exception 'Invalid phone number' using errcode = '22023';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+-- Runs before `assign_request_customer`: triggers fire in name order.
+drop trigger if exists a_normalize_request_phone on public.requests;
+create trigger a_normalize_request_phone
+  before insert on public.requests
+  for each row execute function public.normalize_request_phone();
+
+-- Phones stored by the previous rules: "00992…" and "0…" kept their leading zeros.
+-- Re-normalize them and merge customers that turn out to share a number. The owner is read
+-- per phone: an earlier merge may already have moved it to another customer.
+do $$
+declare
+  r record;
+  v_phone text;
+  v_owner bigint;
+  v_target bigint;
+begin
+  for r in select phone from public.customer_phones where phone like '+0%' loop
+    select customer_id into v_owner from public.customer_phones where phone = r.phone;
+    v_phone := public.normalize_phone(substr(r.phone, 2));
+    if v_owner is null or v_phone is null or v_phone = r.phone then
+      continue;
+    end if;
+
+    select customer_id into v_target from public.customer_phones where phone = v_phone;
+    if v_target is null then
+      update public.customer_phones set phone = v_phone where phone = r.phone;
+    else
+      delete from public.customer_phones where phone = r.phone;
+      if v_target <> v_owner then
+        perform public.merge_customers_unchecked(v_target, v_owner);
+      end if;
+    end if;
+  end loop;
+end
+$$;
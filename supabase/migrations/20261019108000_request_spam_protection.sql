@@ -0,0 +1,259 @@
+-- Spam protection for the storefront forms. Visitors can no longer insert into `requests`
+-- directly: both forms go through security definer functions that throttle by phone,
+-- device and IP address. Of these only the IP address is outside the caller's control, so
+-- it is the limit that holds against scripts calling the API directly. Honeypot and fill
+-- time come from the caller too: they only sort naive bots into the "spam" status.
+
+drop policy if exists "requests insert" on public.requests;
+
+-- Accepted submissions, kept for a day for the rate limits.
+create table if not exists public.request_submissions (
+  id bigint generated always as identity primary key,
+  phone text,
+  device_id text,
+  ip text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists request_submissions_phone_idx on public.request_submissions (phone, created_at);
+create index if not exists request_submissions_device_idx on public.request_submissions (device_id, created_at);
+create index if not exists request_submissions_ip_idx on public.request_submissions (ip, created_at);
+create index if not exists request_submissions_created_idx on public.request_submissions (created_at);
+
+-- Only the functions below read and write it.
+alter table public.request_submissions enable row level security;
+
+-- Raises PT429 (HTTP 429 from PostgREST) when the phone, device or address has sent too much:
+-- 3 per phone in 10 minutes, 5 per device and 20 per address in an hour.
+-- The address is the one our proxies saw: `cf-connecting-ip` from Cloudflare, otherwise the
+-- last `x-forwarded-for` entry, appended by the proxy in front of PostgREST. Earlier entries
+-- are whatever the client sent.
+create or replace function public.register_request_submission(p_phone text, p_device_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_phone text := public.normalize_phone(p_phone);
+  v_device_id text := nullif(left(trim(p_device_id), 64), '');
+  v_headers json := coalesce(nullif(current_setting('request.headers', true), ''), '{}')::json;
+  v_ip text := coalesce(
+    nullif(trim(v_headers ->> 'cf-connecting-ip'), ''),
+    nullif(trim(regexp_replace(coalesce(v_headers ->> 'x-forwarded-for', ''), '^.*,', '')), '')
+  );
+begin
+  if v_phone is not null and (
+    select count(*) from request_submissions
+    where phone = v_phone and created_at > now() - interval '10 minutes'
+  ) >= 3 then
+    raise exception 'Too many requests for this phone' using errcode = 'PT429';
+  end if;
+
+  if v_device_id is not null and (
+    select count(*) from request_submissions
+    where device_id = v_device_id and created_at > now() - interval '1 hour'
+  ) >= 5 then
+    raise exception 'Too many requests from this device' using errcode = 'PT429';
+  end if;
+
+  if v_ip is not null and (
+    select count(*) from request_submissions
+    where ip = v_ip and created_at > now() - interval '1 hour'
+  ) >= 20 then
+    raise exception 'Too many requests from this address' using errcode = 'PT429';
+  end if;
+
+  insert into request_submissions (phone, device_id, ip) values (v_phone, v_device_id, v_ip);
+
+  -- Occasional cleanup instead of a scheduled job
+  if random() < 0.02 then
+    delete from request_submissions where created_at < now() - interval '1 day';
+  end if;
+end;
+$$;
+
+revoke execute on function public.register_request_submission(text, text) from public, anon, authenticated;
+
+-- A filled honeypot field or a form sent faster than a person can type. Both values are
+-- supplied by the caller, so this only catches bots that go through the form; it is not a
+-- defence against direct API calls (that is the rate limit above).
+create or replace function public.is_spam_submission(p_honeypot text, p_elapsed_ms integer)
+returns boolean
+language sql
+immutable
+as $$
+  select nullif(trim(p_honeypot), '') is not null or coalesce(p_elapsed_ms, 3000) < 3000;
+$$;
+
+-- `submit_inquiry` with the spam checks; the old signature is replaced.
+drop function if exists public.submit_inquiry(text, text, text, jsonb);
+
+create or replace function public.submit_inquiry(
+  p_client_name text,
+  p_client_phone text,
+  p_client_message text,
+  p_items jsonb,
+  p_device_id text default null,
+  p_honeypot text default null,
+  p_elapsed_ms integer default null
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_request_id bigint;
+  first_item record;
+begin
+  if jsonb_typeof(p_items) is distinct from 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Inquiry must contain at least one item';
+  end if;
+
+  if jsonb_array_length(p_items) > 50 then
+    raise exception 'Inquiry contains too many items';
+  end if;
+
+  if coalesce(length(trim(p_client_phone)), 0) < 5 then
+    raise exception 'Client phone is required';
+  end if;
+
+  if length(p_client_name) > 200 or length(p_client_message) > 5000 then
+    raise exception 'Inquiry text is too long';
+  end if;
+
+  perform public.register_request_submission(p_client_phone, p_device_id);
+
+  insert into requests (client_name, client_phone, client_message, status)
+  values (
+    nullif(trim(p_client_name), ''),
+    trim(p_client_phone),
+    nullif(trim(p_client_message), ''),
+    case when public.is_spam_submission(p_honeypot, p_elapsed_ms) then 'spam' else 'new' end
+  )
+  returning id into new_request_id;
+
+  insert into request_items (request_id, product_id, variant_id, product_name, variant_name, quantity, position)
+  select
+    new_request_id,
+    p.id,
+    v.id,
+    p.name,
+    v.name,
+    greatest(1, least(99, coalesce((item ->> 'quantity')::integer, 1))),
+    (ord - 1)::integer
+  from jsonb_array_elements(p_items) with ordinality as t (item, ord)
+  -- Products in the trash may still sit in a visitor's cart or favorites
+  join products p on p.id = (item ->> 'product_id')::bigint and p.deleted_at is null
+  left join product_variants v
+    on v.id = (item ->> 'variant_id')::bigint
+   and v.product_id = p.id;
+
+  select product_id, variant_id, variant_name into first_item
+  from request_items
+  where request_id = new_request_id
+  order by position
+  limit 1;
+
+  if not found then
+    raise exception 'Inquiry products no longer exist';
+  end if;
+
+  update requests
+  set product_id = first_item.product_id,
+      variant_id = first_item.variant_id,
+      variant_name = first_item.variant_name
+  where id = new_request_id;
+
+  return new_request_id;
+end;
+$$;
+
+grant execute on function public.submit_inquiry(text, text, text, jsonb, text, text, integer) to anon, authenticated;
+
+-- "Leave your contact" form on the home page: a request with only a phone and no status.
+create or replace function public.submit_contact_request(
+  p_client_phone text,
+  p_device_id text default null,
+  p_honeypot text default null,
+  p_elapsed_ms integer default null
+)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_request_id bigint;
+begin
+  if coalesce(length(trim(p_client_phone)), 0) < 5 then
+    raise exception 'Client phone is required';
+  end if;
+
+  perform public.register_request_submission(p_client_phone, p_device_id);
+
+  insert into requests (client_phone, status)
+  values (
+    trim(p_client_phone),
+    case when public.is_spam_submission(p_honeypot, p_elapsed_ms) then 'spam' end
+  )
+  returning id into new_request_id;
+
+  return new_request_id;
+end;
+$$;
+
+grant execute on function public.submit_contact_request(text, text, text, integer) to anon, authenticated;
+
+create index if not exists requests_status_idx on public.requests (status);
+
+-- Spam is not a handled request: leave it out of the response-time metrics.
+create or replace function public.request_response_times(p_from timestamptz default null, p_to timestamptz default null)
+returns table (
+  first_response_count bigint,
+  first_response_median double precision,
+  first_response_p90 double precision,
+  done_count bigint,
+  done_median double precision,
+  done_p90 double precision
+)
+language sql
+stable
+set search_path = public
+as $$
+  with scoped as (
+    select r.id, r.created_at
+    from requests r
+    where (p_from is null or r.created_at >= p_from)
+      and (p_to is null or r.created_at < p_to)
+      and r.status is distinct from 'spam'
+  ),
+  durations as (
+    select
+      s.id,
+      extract(epoch from (
+        select min(h.created_at) from request_status_history h
+        where h.request_id = s.id and h.actor_id is not null
+          and coalesce(h.from_status, 'new') = 'new' and coalesce(h.to_status, 'new') <> 'new'
+      ) - s.created_at) as first_response,
+      extract(epoch from (
+        select min(h.created_at) from request_status_history h
+        where h.request_id = s.id and h.actor_id is not null and h.to_status = 'done'
+      ) - s.created_at) as done
+    from scoped s
+    -- Requests without a creation entry have an unknown history (see 20261019105000)
+    where exists (
+      select 1 from request_status_history h
+      where h.request_id = s.id and h.actor_id is null and h.from_status is null
+    )
+  )
+  select
+    count(first_response),
+    percentile_cont(0.5) within group (order by first_response),
+    percentile_cont(0.9) within group (order by first_response),
+    count(done),
+    percentile_cont(0.5) within group (order by done),
+    percentile_cont(0.9) within group (order by done)
+  from durations;
+$$;
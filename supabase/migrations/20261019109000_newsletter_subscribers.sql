@@ -0,0 +1,104 @@
+-- Newsletter subscriptions ("Оставьте свой контакт" on the home page) get their own table
+-- instead of phone-only rows in `requests`. One row per phone; unsubscribing keeps the row
+-- so the consent history stays available.
+
+create table if not exists public.newsletter_subscribers (
+  id bigint generated always as identity primary key,
+  phone text not null unique,
+  -- Form the visitor subscribed through, e.g. 'home'
+  source text not null default 'home',
+  consented_at timestamptz not null default now(),
+  unsubscribed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists newsletter_subscribers_created_idx on public.newsletter_subscribers (created_at);
+
+alter table public.newsletter_subscribers enable row level security;
+
+drop policy if exists "newsletter_subscribers read" on public.newsletter_subscribers;
+create policy "newsletter_subscribers read" on public.newsletter_subscribers
+  for select to authenticated using (public.has_admin_role('owner', 'manager'));
+drop policy if exists "newsletter_subscribers update" on public.newsletter_subscribers;
+create policy "newsletter_subscribers update" on public.newsletter_subscribers
+  for update to authenticated
+  using (public.has_admin_role('owner', 'manager'))
+  with check (public.has_admin_role('owner', 'manager'));
+
+-- Subscribes the phone, or renews the consent of an unsubscribed one.
+-- Returns false when the phone is already subscribed. Same throttling and spam checks as
+-- the request forms; bot submissions are dropped silently.
+create or replace function public.subscribe_newsletter(
+  p_phone text,
+  p_source text default 'home',
+  p_device_id text default null,
+  p_honeypot text default null,
+  p_elapsed_ms integer default null
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_phone text := public.normalize_phone(p_phone);
+  v_subscribed boolean;
+begin
+  if v_phone is null or v_phone !~ '^\+[1-9][0-9]{7,14}$' then
+    raise exception 'Invalid phone number' using errcode = '22023';
+  end if;
+
+  perform public.register_request_submission(v_phone, p_device_id);
+
+  if public.is_spam_submission(p_honeypot, p_elapsed_ms) then
+    return true;
+  end if;
+
+  insert into newsletter_subscribers (phone, source)
+  values (v_phone, coalesce(nullif(left(trim(p_source), 50), ''), 'home'))
+  on conflict (phone) do update
+    set consented_at = now(), unsubscribed_at = null, source = excluded.source
+    where newsletter_subscribers.unsubscribed_at is not null
+  returning true into v_subscribed;
+
+  return coalesce(v_subscribed, false);
+end;
+$$;
+
+grant execute on function public.subscribe_newsletter(text, text, text, text, integer) to anon, authenticated;
+
+-- The newsletter form no longer creates requests.
+drop function if exists public.submit_contact_request(text, text, text, integer);
+
+-- Move the phone-only requests the form created so far. Requests staff already worked on
+-- (notes, assignee, a status) stay where they are.
+insert into public.newsletter_subscribers (phone, source, consented_at, created_at)
+select distinct on (public.normalize_phone(r.client_phone))
+  public.normalize_phone(r.client_phone), 'home', r.created_at, r.created_at
+from public.requests r
+where r.status is null
+  and r.client_name is null
+  and r.client_message is null
+  and r.product_id is null
+  and r.assignee_id is null
+  and public.normalize_phone(r.client_phone) is not null
+  and not exists (select 1 from public.request_items i where i.request_id = r.id)
+  and not exists (select 1 from public.request_notes n where n.request_id = r.id)
+order by public.normalize_phone(r.client_phone), r.created_at
+on conflict (phone) do nothing;
+
+delete from public.requests r
+where r.status is null
+  and r.client_name is null
+  and r.client_message is null
+  and r.product_id is null
+  and r.assignee_id is null
+  and exists (
+    select 1 from public.newsletter_subscribers s where s.phone = public.normalize_phone(r.client_phone)
+  )
+  and not exists (select 1 from public.request_items i where i.request_id = r.id)
+  and not exists (select 1 from public.request_notes n where n.request_id = r.id);
+
+-- Customers that only existed because of those requests
+delete from public.customers c
+where not exists (select 1 from public.requests r where r.customer_id = c.id);
@@ -0,0 +1,174 @@
+-- Telegram notifications for new requests. Every request (except spam) gets a row in
+-- `request_notifications`; the `notify-telegram` Edge Function claims due rows, sends the
+-- message and reports back. Failed sends are retried with a growing delay.
+--
+-- The function is woken right after the insert through pg_net and once a minute by pg_cron,
+-- which picks up retries. Both need two Vault secrets:
+--   select vault.create_secret('https://<project>.supabase.co/functions/v1/notify-telegram', 'notify_telegram_url');
+--   select vault.create_secret('<NOTIFY_SECRET of the function>', 'notify_telegram_secret');
+-- Without them requests are still queued and go out once the secrets are set.
+
+create extension if not exists pg_net;
+create extension if not exists pg_cron;
+
+create table if not exists public.request_notifications (
+  id bigint generated always as identity primary key,
+  request_id bigint not null unique references public.requests (id) on delete cascade,
+  attempts integer not null default 0,
+  -- Null once sent or given up
+  next_attempt_at timestamptz default now(),
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists request_notifications_due_idx
+  on public.request_notifications (next_attempt_at)
+  where next_attempt_at is not null;
+
+-- Only the Edge Function (service role) works with the queue.
+alter table public.request_notifications enable row level security;
+
+-- Calls the Edge Function; never fails the calling transaction.
+create or replace function public.wake_notification_worker()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_url text;
+  v_secret text;
+begin
+  select decrypted_secret into v_url from vault.decrypted_secrets where name = 'notify_telegram_url';
+  select decrypted_secret into v_secret from vault.decrypted_secrets where name = 'notify_telegram_secret';
+  if v_url is null then
+    return;
+  end if;
+
+  -- pg_net sends after commit, so the request's line items are in place by then
+  perform net.http_post(
+    url := v_url,
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || coalesce(v_secret, '')),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 10000
+  );
+exception
+  when others then
+    raise warning 'notify-telegram wake-up failed: %', sqlerrm;
+end;
+$$;
+
+revoke execute on function public.wake_notification_worker() from public, anon, authenticated;
+
+create or replace function public.enqueue_request_notification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status is distinct from 'spam' then
+    insert into request_notifications (request_id) values (new.id) on conflict (request_id) do nothing;
+    perform public.wake_notification_worker();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists enqueue_request_notification on public.requests;
+create trigger enqueue_request_notification
+  after insert on public.requests
+  for each row execute function public.enqueue_request_notification();
+
+-- Everything the message needs: client, phone, message and line items with the primary image.
+create or replace function public.request_notification_payload(p_request_id bigint)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'id', r.id,
+    'created_at', r.created_at,
+    'status', r.status,
+    'client_name', r.client_name,
+    'client_phone', r.client_phone,
+    'client_message', r.client_message,
+    'items', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'product_id', i.product_id,
+          'product_name', i.product_name,
+          'variant_name', i.variant_name,
+          'quantity', i.quantity,
+          'image', p.image
+        )
+        order by i.position
+      )
+      from request_items i
+      left join products p on p.id = i.product_id
+      where i.request_id = r.id
+    ), '[]'::jsonb)
+  )
+  from requests r
+  where r.id = p_request_id;
+$$;
+
+-- Takes up to `p_limit` due notifications. A claimed row is not handed out again for five
+-- minutes, so a worker that dies mid-send does not lose it.
+create or replace function public.claim_request_notifications(p_limit integer default 10)
+returns table (id bigint, request_id bigint, attempts integer, payload jsonb)
+language sql
+security definer
+set search_path = public
+as $$
+  with due as (
+    select n.id
+    from request_notifications n
+    where n.next_attempt_at <= now()
+    order by n.next_attempt_at
+    limit p_limit
+    for update skip locked
+  )
+  update request_notifications n
+  set attempts = n.attempts + 1,
+      next_attempt_at = now() + interval '5 minutes'
+  from due
+  where n.id = due.id
+  returning n.id, n.request_id, n.attempts, public.request_notification_payload(n.request_id);
+$$;
+
+-- Result of one send. On error the next attempt is 1, 2, 4… minutes later (at most an hour);
+-- after 8 attempts the notification is dropped and keeps its last error.
+create or replace function public.finish_request_notification(p_id bigint, p_error text default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update request_notifications
+  set sent_at = case when p_error is null then now() end,
+      last_error = left(p_error, 1000),
+      next_attempt_at = case
+        when p_error is null or attempts >= 8 then null
+        else now() + least(interval '1 minute' * power(2, attempts - 1), interval '1 hour')
+      end
+  where id = p_id;
+$$;
+
+revoke execute on function public.request_notification_payload(bigint) from public, anon, authenticated;
+revoke execute on function public.claim_request_notifications(integer) from public, anon, authenticated;
+revoke execute on function public.finish_request_notification(bigint, text) from public, anon, authenticated;
+grant execute on function public.claim_request_notifications(integer) to service_role;
+grant execute on function public.finish_request_notification(bigint, text) to service_role;
+
+-- Retries: wake the worker every minute while something is due.
+select cron.schedule(
+  'notify-telegram-retry',
+  '* * * * *',
+  $$
+    select public.wake_notification_worker()
+    where exists (select 1 from public.request_notifications where next_attempt_at <= now())
+  $$
+);
@@ -0,0 +1,46 @@
+-- Saves a product's gallery and variants in one transaction, so a failed save never leaves a
+-- product without its photos or with half of its variants. `p_images` is the ordered list of
+-- URLs; `p_variants` the full ordered list of variants, existing ones with their `id`. Variants
+-- missing from the list are removed. Runs as the caller, so the write policies still apply.
+create or replace function public.save_product_media(p_product_id bigint, p_images text[], p_variants jsonb)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  delete from product_images where product_id = p_product_id;
+
+  insert into product_images (product_id, url, position)
+  select p_product_id, url, (ord - 1)::integer
+  from unnest(coalesce(p_images, '{}')) with ordinality as t (url, ord);
+
+  delete from product_variants v
+  where v.product_id = p_product_id
+    and v.id not in (
+      select (item ->> 'id')::bigint
+      from jsonb_array_elements(coalesce(p_variants, '[]')) as item
+      where item ->> 'id' is not null
+    );
+
+  update product_variants v
+  set name = item ->> 'name',
+      price = (item ->> 'price')::numeric,
+      in_stock = coalesce((item ->> 'in_stock')::boolean, true),
+      image = item ->> 'image',
+      position = (ord - 1)::integer
+  from jsonb_array_elements(coalesce(p_variants, '[]')) with ordinality as t (item, ord)
+  where v.id = (item ->> 'id')::bigint
+    and v.product_id = p_product_id;
+
+  insert into product_variants (product_id, name, price, in_stock, image, position)
+  select
+    p_product_id,
+    item ->> 'name',
+    (item ->> 'price')::numeric,
+    coalesce((item ->> 'in_stock')::boolean, true),
+    item ->> 'image',
+    (ord - 1)::integer
+  from jsonb_array_elements(coalesce(p_variants, '[]')) with ordinality as t (item, ord)
+  where item ->> 'id' is null;
+end;
+$$;